@@ -0,0 +1,177 @@
+// Mock Data Gateway server for offline development.
+//
+// Serves the simulation from src/lib/mockGateway.ts over a real WebSocket, so the app (or any
+// other client) can point at it like the real gateway:
+//
+//   npm run mock:gateway -- --port 8913 --scenario mixed --speed 1 --tick-ms 1000
+//
+// Scenarios: mixed, launch, pump, dev_sell, rug, graduation.
+// The TS module is loaded through Vite's SSR loader, so no separate build step is needed.
+
+import crypto from "node:crypto";
+import http from "node:http";
+import path from "node:path";
+import { createServer as createViteServer } from "vite";
+
+const repoRoot = path.resolve(new URL("..", import.meta.url).pathname);
+
+function parseArgs(argv) {
+  const out = {};
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) continue;
+    const [key, inline] = arg.slice(2).split("=", 2);
+    out[key] = inline ?? argv[i + 1];
+    if (inline === undefined) i += 1;
+  }
+  return out;
+}
+
+const args = parseArgs(process.argv.slice(2));
+const port = Number(args.port ?? process.env.MOCK_GATEWAY_PORT ?? 8913);
+const scenarioArg = args.scenario ?? process.env.MOCK_GATEWAY_SCENARIO ?? "mixed";
+const speed = Number(args.speed ?? 1);
+const tickMs = Number(args["tick-ms"] ?? 1000);
+
+const vite = await createViteServer({
+  root: repoRoot,
+  logLevel: "error",
+  appType: "custom",
+  server: { middlewareMode: true, hmr: false },
+});
+const { MockGateway, parseMockScenario } = await vite.ssrLoadModule("/src/lib/mockGateway.ts");
+const scenario = parseMockScenario(scenarioArg) ?? "mixed";
+const gateway = new MockGateway({ scenario, speed, tickMs });
+
+// --- Minimal RFC 6455 framing (text frames, ping/pong, close; no extensions) ---
+
+const WS_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+function encodeFrame(opcode, payload) {
+  const len = payload.length;
+  let header;
+  if (len < 126) {
+    header = Buffer.from([0x80 | opcode, len]);
+  } else if (len < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(len, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(len), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+// Returns { frames, rest }; client frames are always masked.
+function decodeFrames(buf) {
+  const frames = [];
+  let offset = 0;
+  while (buf.length - offset >= 2) {
+    const b0 = buf[offset];
+    const b1 = buf[offset + 1];
+    let len = b1 & 0x7f;
+    let pos = offset + 2;
+    if (len === 126) {
+      if (buf.length - pos < 2) break;
+      len = buf.readUInt16BE(pos);
+      pos += 2;
+    } else if (len === 127) {
+      if (buf.length - pos < 8) break;
+      len = Number(buf.readBigUInt64BE(pos));
+      pos += 8;
+    }
+    const masked = (b1 & 0x80) !== 0;
+    const maskLen = masked ? 4 : 0;
+    if (buf.length - pos < maskLen + len) break;
+    const mask = masked ? buf.subarray(pos, pos + 4) : null;
+    pos += maskLen;
+    const payload = Buffer.from(buf.subarray(pos, pos + len));
+    if (mask) for (let i = 0; i < payload.length; i += 1) payload[i] ^= mask[i % 4];
+    frames.push({ fin: (b0 & 0x80) !== 0, opcode: b0 & 0x0f, payload });
+    offset = pos + len;
+  }
+  return { frames, rest: buf.subarray(offset) };
+}
+
+const server = http.createServer((_req, res) => {
+  res.writeHead(426, { "content-type": "text/plain" });
+  res.end(`Mock Data Gateway (scenario: ${scenario}). Connect with a WebSocket.\n`);
+});
+
+let nextConnId = 1;
+
+server.on("upgrade", (req, socket) => {
+  const key = req.headers["sec-websocket-key"];
+  if (!key) {
+    socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+    return;
+  }
+  const accept = crypto.createHash("sha1").update(key + WS_GUID).digest("base64");
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\n" +
+      "Upgrade: websocket\r\n" +
+      "Connection: Upgrade\r\n" +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`,
+  );
+  socket.setNoDelay(true);
+
+  const id = nextConnId++;
+  console.log(`[mock-gateway] #${id} connected from ${req.socket.remoteAddress}`);
+
+  let buffered = Buffer.alloc(0);
+  let fragments = [];
+  let closed = false;
+
+  const conn = gateway.connect((raw) => {
+    if (!closed) socket.write(encodeFrame(0x1, Buffer.from(raw, "utf8")));
+  });
+
+  const finish = () => {
+    if (closed) return;
+    closed = true;
+    conn.close();
+    console.log(`[mock-gateway] #${id} closed`);
+  };
+
+  socket.on("data", (chunk) => {
+    buffered = Buffer.concat([buffered, chunk]);
+    const { frames, rest } = decodeFrames(buffered);
+    buffered = rest;
+    for (const frame of frames) {
+      if (frame.opcode === 0x8) {
+        socket.end(encodeFrame(0x8, frame.payload.subarray(0, 2)));
+        finish();
+        return;
+      }
+      if (frame.opcode === 0x9) {
+        socket.write(encodeFrame(0xa, frame.payload));
+        continue;
+      }
+      if (frame.opcode === 0x1 || frame.opcode === 0x0) {
+        fragments.push(frame.payload);
+        if (!frame.fin) continue;
+        const text = Buffer.concat(fragments).toString("utf8");
+        fragments = [];
+        conn.receive(text);
+      }
+    }
+  });
+  socket.on("close", finish);
+  socket.on("error", finish);
+});
+
+server.listen(port, () => {
+  console.log(`[mock-gateway] ws://localhost:${port} (scenario: ${scenario}, speed: ${speed}x, tick: ${tickMs}ms)`);
+});
+
+const shutdown = async () => {
+  server.close();
+  await vite.close();
+  process.exit(0);
+};
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
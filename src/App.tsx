@@ -2,17 +2,96 @@ import './App.css'
 import { Suspense, lazy, useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react'
 import { useConnection, useWallet } from '@solana/wallet-adapter-react'
 import { BaseWalletMultiButton } from '@solana/wallet-adapter-react-ui'
-import { Keypair, PublicKey, Transaction, type Commitment, type Connection } from '@solana/web3.js'
+import { Keypair, LAMPORTS_PER_SOL, PublicKey, Transaction, type Commitment, type Connection } from '@solana/web3.js'
 import { AnimatePresence } from 'framer-motion'
 import bs58 from 'bs58'
 import { TokenRow } from './components/TokenRow'
 import { RadarPulse } from './components/RadarPulse'
 import { HelpDot } from './components/HelpDot'
 import { TierSelectionScreen } from './components/TierSelectionScreen'
+import { AlertRulesPanel } from './components/AlertRulesPanel'
+import { RiskBadge } from './components/RiskBadge'
+import { SourceDisagreementBadge } from './components/SourceDisagreementBadge'
+import { RiskSettingsPanel } from './components/RiskSettingsPanel'
+import { TradeTape } from './components/TradeTape'
+import { RoomStatsTable } from './components/RoomStatsTable'
 import type { CandlesChartMarker } from './components/CandlesChart'
-import { TradingWs, TradingWsError, type TradingWsStats } from './lib/tradingWs'
+import {
+  TradingWs,
+  TradingWsError,
+  isTradingWsAbortError,
+  type TradingWsConnectionState,
+  type TradingWsRttStats,
+  type TradingWsStats,
+  type WsClientOptions,
+} from './lib/tradingWs'
+import type {
+  GetHistoryResult,
+  GetPositionsResult,
+  GetSubscriptionStatusResult,
+  QuoteBatchLegResult,
+} from './lib/tradingProtocol'
+import { TokenBucketRateLimiter, type RateLimiterStats } from './lib/rateLimiter'
+import { QuoteScheduler, type QuoteCandidate } from './lib/quoteScheduler'
+import {
+  healthzUrlForWsUrl,
+  parseTradingEndpoints,
+  type TradingApiHealthz,
+  type TradingApiTierCounts,
+} from './lib/tradingEndpoints'
 import { DataGatewayWs } from './lib/dataGatewayWs'
-import type { TokenMetricsMessage } from './lib/dataGatewayWs'
+import {
+  AlertEngine,
+  DEFAULT_ALERT_SETTINGS,
+  loadAlertSettings,
+  playAlertSound,
+  saveAlertSettings,
+  showAlertNotification,
+  type AlertFiring,
+  type AlertSettings,
+} from './lib/alertRules'
+import {
+  WsRecorder,
+  WsReplayer,
+  downloadWsRecording,
+  parseWsRecording,
+  type WebSocketFactory,
+  type WsRecordSource,
+} from './lib/wsRecorder'
+import { createMockGatewaySocketFactory, parseMockScenario } from './lib/mockGateway'
+import {
+  SharedSockets,
+  dataGatewaySharedProtocol,
+  solanaTrackerSharedProtocol,
+  type SharedSocketsRole,
+} from './lib/sharedSockets'
+import { SolanaTrackerWs, type SolanaTrackerRoomStats } from './lib/solanaTrackerWs'
+import { WalletActivityWatcher, type WatchedWallet } from './lib/walletActivity'
+import type { TradeEvent } from './lib/solanaTrackerRooms'
+import { isSnipeBuy, loadKnownSnipers, recordSnipe, saveKnownSnipers, sniperClusters } from './lib/snipers'
+import {
+  TradeSignalDetector,
+  describeTradeSignal,
+  type TradeFlag,
+  type TradeSignal,
+  type TradeSignalContext,
+} from './lib/tradeSignals'
+import {
+  loadTradeTapeFilters,
+  pushTapeTrades,
+  saveTradeTapeFilters,
+  type TapeTrade,
+  type TradeTapeFilters,
+} from './lib/tradeTape'
+import {
+  describeTokenMetricProvenance,
+  staleTokenMetricFields,
+  tokenMetricDisagreements,
+  type DataGatewayConnectionState,
+  type TokenMetricField,
+  type TokenMetricsMessage,
+  type TokenMetricsSnapshot,
+} from './lib/dataGatewayWs'
 import { Candles1sBuilder, type Candle1s, type CandleTick } from './lib/candles1s'
 import {
   getAccountMe,
@@ -33,14 +112,25 @@ import {
   tierDisplayName,
 } from './lib/product'
 import { PRICE_PROXY_SCALE, bigintFromString, computePriceProxyScaled } from './lib/priceProxy'
-import { isJupiterNoRouteErrorMessage, isTokenRugged } from './lib/rug'
+import { isJupiterNoRouteErrorMessage, isTokenRugged, type RugCheckToken } from './lib/rug'
+import {
+  DEFAULT_RISK_SETTINGS,
+  computeRiskScore,
+  loadRiskSettings,
+  riskInputsFromSnapshot,
+  saveRiskSettings,
+  type RiskSettings,
+  type TokenRiskScore,
+} from './lib/riskScore'
 import {
   SOL_MINT,
   getSolBalanceLamports,
   getTokenBalanceBaseUnits,
   toLamports,
   deserializeTx,
+  getTokenCreator,
   signTxWithKeypair,
+  txSignature,
 } from './lib/solana'
 import { buildArmFastModeTx, buildRevokeFastModeTx, createFastModeSessionKeypair } from './lib/fastMode'
 import { clearBotWalletKeypair, loadBotWalletKeypair, saveBotWalletKeypair } from './lib/botWallet'
@@ -58,195 +148,10 @@ import powerupAudioUrl from './media/powerup.wav'
 
 const CandlesChartLazy = lazy(() => import('./components/CandlesChart').then((m) => ({ default: m.CandlesChart })))
 
-type QuoteResult = {
-  type: 'quote_result'
-  success: boolean
-  data?: {
-    amountIn: string
-    amountOut: string
-    minOut: string
-    priceImpactBps?: number
-    route?: {
-      provider?: string
-      hops?: number
-      serializedQuote?: string
-    }
-  }
-}
-
-type BuildSwapTxResult = {
-  type: 'build_swap_tx_result'
-  success: boolean
-  data?: {
-    transactionBase64?: string
-    swapTransaction?: string
-    recentBlockhash?: string
-    lastValidBlockHeight?: number
-  }
-}
-
-type CreateOrderResult = {
-  type: 'create_order_result'
-  success: boolean
-  data?: {
-    orderId?: string
-  }
-}
-
-type SubmitSignedTxResult = {
-  type: 'submit_signed_tx_result'
-  success: boolean
-  data?: {
-    signature?: string
-  }
-}
 
-type GetPositionsResult = {
-  type: 'get_positions_result'
-  success: boolean
-  data?: {
-    holdings?: Array<{
-      mint?: string
-      isOpen?: boolean
-      openedAt?: number
-      updatedAt?: number
-    }>
-  }
-}
-
-type GetHistoryResult = {
-  type: 'get_history_result'
-  success: boolean
-  data?: {
-    history?: Array<{
-      mint?: string
-      soldAt?: number
-      sellSignature?: string
-    }>
-  }
-}
-
-type OrderUpdateMsg = {
-  type: 'order_update'
-  data?: Record<string, unknown>
-}
-
-type PositionUpdateMsg = {
-  type: 'position_update'
-  data?: Record<string, unknown>
-}
-
-type TradingApiTierCounts = {
-  totalSockets: number
-  authed: number
-  authedSockets?: number
-  tiers: {
-    free: number
-    pro: number
-    elite: number
-    unknown: number
-  }
-}
-
-type TradingApiHealthz = {
-  ok: boolean
-  ts?: number
-  service?: string
-  version?: string
-  uptimeSec?: number
-  auth?: {
-    required?: boolean
-    methods?: {
-      apiKey?: boolean
-      token?: boolean
-      jwt?: boolean
-      cfAccess?: boolean
-      walletSig?: boolean
-    }
-    cfAccess?: {
-      required?: boolean
-      issuer?: string
-      audience?: string
-      jwksUrl?: string
-    }
-    walletSig?: {
-      required?: boolean
-    }
-    jwt?: {
-      disabled?: boolean
-      issuer?: string
-      audience?: string
-      jwksUrl?: string
-    }
-  }
-  originAllowlist?: {
-    enabled?: boolean
-    allowNoOrigin?: boolean
-    allowedOrigins?: string[]
-  }
-  rateLimit?: {
-    enabled?: boolean
-    rps?: number
-    burst?: number
-  }
-  userRateLimit?: {
-    enabled?: boolean
-    rps?: number
-    burst?: number
-  }
-  connections?: TradingApiTierCounts
-}
 
-type GetSubscriptionStatusResult = {
-  type: 'get_subscription_status_result'
-  success: boolean
-  data?: {
-    subscriptionWallet?: string
-    currencyMint?: string
-    decimals?: number
-    pricing?: { pro?: number; elite?: number }
-    active?: boolean
-    needsRenewalSoon?: boolean
-    overdue?: boolean
-    dueInMs?: number
-    subscription?: {
-      tier: 'pro' | 'elite'
-      status: string
-      currentPeriodEndAt: number
-      nextDueAt: number
-    }
-    latestPayment?: {
-      id: number
-      tier: 'pro' | 'elite'
-      status: string
-      signature?: string
-      createdAt: number
-      confirmedAt?: number
-      errorMessage?: string
-    }
-  }
-}
 
-type BuildSubscriptionTxResult = {
-  type: 'build_subscription_tx_result'
-  success: boolean
-  data?: {
-    attemptId: number
-    transactionBase64: string
-    recentBlockhash?: string
-    lastValidBlockHeight?: number
-    tier: 'pro' | 'elite'
-    amountBaseUnits: number
-    currencyMint: string
-    subscriptionWallet: string
-  }
-}
 
-type SubmitSubscriptionPaymentResult = {
-  type: 'submit_subscription_payment_result'
-  success: boolean
-  data?: { attemptId: number; signature: string }
-}
 
 type UiStep =
   | 'idle'
@@ -263,6 +168,36 @@ function clamp(n: number, min: number, max: number) {
   return Math.max(min, Math.min(max, n))
 }
 
+function formatRtt(s: TradingWsRttStats | undefined) {
+  if (!s) return '—'
+  return `p50 ${s.p50Ms}ms · p95 ${s.p95Ms}ms · last ${s.lastMs}ms (n=${s.count})`
+}
+
+function formatRateLimiter(s: RateLimiterStats | undefined) {
+  if (!s) return '—'
+  if (!s.enabled) return 'off (no server limit advertised)'
+  const queued = s.queued.critical + s.queued.interactive + s.queued.background
+  return `${s.rps} rps / burst ${s.burst} · ${s.tokens} tokens · queued ${queued} · throttled ${s.throttledCount}`
+}
+
+function formatClockOffset(stats: TradingWsStats) {
+  if (stats.clockOffsetMs === undefined) return '—'
+  const sign = stats.clockOffsetMs >= 0 ? '+' : ''
+  return `${sign}${stats.clockOffsetMs}ms (${stats.clockOffsetSource})`
+}
+
+// Last round trip of each trade step, for the Debug Portal timeline after a trade.
+function describeTradeWsTimings(stats: TradingWsStats | undefined) {
+  if (!stats) return ''
+  const parts: string[] = []
+  for (const type of ['quote', 'create_order', 'build_swap_tx', 'submit_signed_tx']) {
+    const rtt = stats.rtt[type]
+    if (rtt) parts.push(`${type} ${rtt.lastMs}ms`)
+  }
+  if (stats.clockOffsetMs !== undefined) parts.push(`clock ${formatClockOffset(stats)}`)
+  return parts.join(' · ')
+}
+
 async function confirmSignatureWithFallback(
   connection: Connection,
   signature: string,
@@ -270,6 +205,8 @@ async function confirmSignatureWithFallback(
     commitment?: Commitment
     timeoutMs?: number
     pollIntervalMs?: number
+    /** Stops polling early (the result is then 'timeout'), e.g. when another source confirmed first. */
+    signal?: AbortSignal
   },
 ): Promise<'confirmed' | 'timeout' | 'not_found'> {
   const commitment = opts?.commitment || 'confirmed'
@@ -305,6 +242,7 @@ async function confirmSignatureWithFallback(
   const started = Date.now()
   let everObservedStatus = false
   while (Date.now() - started < timeoutMs) {
+    if (opts?.signal?.aborted) return 'timeout'
     const st = await connection.getSignatureStatuses([signature], { searchTransactionHistory: true }).catch(() => null)
     const s = st?.value?.[0]
     if (s) {
@@ -319,10 +257,49 @@ async function confirmSignatureWithFallback(
   return everObservedStatus ? 'timeout' : 'not_found'
 }
 
+// Popout signals that show a rate of change next to the current value.
+const POPOUT_TREND_FIELDS = ['holders', 'liquidityUsd', 'sniperPct'] as const
+const POPOUT_TREND_WINDOW_MS = 5 * 60_000
+
+const POPOUT_FIELD_LABELS: Partial<Record<TokenMetricField, string>> = {
+  holders: 'Holders',
+  liquidityUsd: 'Liq',
+  marketCapUsd: 'MC',
+  priceUsd: 'Price',
+  top10Pct: 'Top10',
+  devPct: 'Dev',
+  sniperPct: 'Snipers',
+  insiderPct: 'Insiders',
+  curvePct: 'Curve',
+  vol5mUsd: '5m Vol',
+  tx5m: '5m Tx',
+  feesUsd: 'Fees',
+}
+
+type PopoutTrends = Partial<Record<(typeof POPOUT_TREND_FIELDS)[number], { delta: number; pct?: number }>>
+
+/** e.g. " +12/5m" for counts, " -30%/5m" for USD amounts, " -4.2pt/5m" for percentages (leading space). Empty when flat or unknown. */
+function formatMetricTrend(change: { delta: number; pct?: number } | undefined, kind: 'count' | 'usd' | 'pct') {
+  if (!change || !Number.isFinite(change.delta) || change.delta === 0) return ''
+  const sign = change.delta > 0 ? '+' : '-'
+  const per = `/${Math.round(POPOUT_TREND_WINDOW_MS / 60_000)}m`
+  if (kind === 'count') return ` ${sign}${Math.abs(Math.round(change.delta)).toLocaleString()}${per}`
+  if (kind === 'pct') return ` ${sign}${Math.abs(change.delta).toFixed(1)}pt${per}`
+  return typeof change.pct === 'number' ? ` ${sign}${Math.abs(change.pct).toFixed(0)}%${per}` : ''
+}
+
 function shortPk(pk: string) {
   return `${pk.slice(0, 4)}…${pk.slice(-4)}`
 }
 
+function endpointHost(url: string) {
+  try {
+    return new URL(url).host
+  } catch {
+    return url
+  }
+}
+
 const READONLY_PUBKEY = '11111111111111111111111111111111'
 
 type FeedToken = {
@@ -459,6 +436,8 @@ type WatchedToken = {
   growthPct?: number
   lastUpdatedAt?: number
   error?: string
+  // Runtime only: observed quote refresh interval from the polling scheduler.
+  quoteRefreshMs?: number
 }
 
 type HoldingToken = {
@@ -855,9 +834,20 @@ function App() {
   const [lastWsConnectedAt, setLastWsConnectedAt] = useState<number>(0)
   const [lastWsErrorAt, setLastWsErrorAt] = useState<number>(0)
 
-  const [wsDiag, setWsDiag] = useState<TradingWsStats>({ messageCount: 0, lastMessageAt: 0, lastMessageType: undefined })
+  const [wsDiag, setWsDiag] = useState<TradingWsStats>({
+    messageCount: 0,
+    lastMessageAt: 0,
+    lastMessageType: undefined,
+    protocolErrorCount: 0,
+    rtt: {},
+    activeEndpoint: '',
+    endpoints: [],
+  })
 
   const [tradingApiHealth, setTradingApiHealth] = useState<TradingApiHealthz | null>(null)
+  // Endpoint the current TradingWs is connected to (one of the entries in the wsUrl setting).
+  const [wsActiveEndpoint, setWsActiveEndpoint] = useState('')
+  const wsActiveEndpointRef = useRef('')
 
   const [tierCounts, setTierCounts] = useState<TradingApiTierCounts | null>(null)
   const [tierCountsAt, setTierCountsAt] = useState(0)
@@ -938,18 +928,9 @@ function App() {
   useEffect(() => {
     if (!debugOpen || !debugUnlocked) return
 
-    const wsUrlToHealthzUrl = (raw: string): string => {
-      const u = new URL(raw)
-      u.protocol = u.protocol === 'wss:' ? 'https:' : 'http:'
-      u.pathname = '/healthz'
-      u.search = ''
-      u.hash = ''
-      return u.toString()
-    }
-
     let healthzUrl = ''
     try {
-      healthzUrl = wsUrlToHealthzUrl(wsUrl)
+      healthzUrl = healthzUrlForWsUrl(wsActiveEndpoint || parseTradingEndpoints(wsUrl)[0] || '')
     } catch {
       setTierCountsHealthzUrl('')
       setTierCountsError('Invalid WS URL (cannot derive /healthz)')
@@ -984,7 +965,7 @@ function App() {
       cancelled = true
       window.clearInterval(id)
     }
-  }, [debugOpen, debugUnlocked, wsUrl])
+  }, [debugOpen, debugUnlocked, wsActiveEndpoint, wsUrl])
   const userRateLimitBackoffMsRef = useRef(500)
 
   const bumpUserRateLimitBackoff = useCallback(() => {
@@ -1011,9 +992,87 @@ function App() {
   const wsEventsBoundToRef = useRef<TradingWs | null>(null)
   const wsEventsUnsubRef = useRef<(() => void) | null>(null)
   const lastPositionsSyncAtRef = useRef(0)
-  const [wsStatus, setWsStatus] = useState<'disconnected' | 'connected'>('disconnected')
+  const [wsStatus, setWsStatus] = useState<TradingWsConnectionState>('disconnected')
   const [wsAuthed, setWsAuthed] = useState(false)
 
+  // One token bucket for every TradingWs in this tab (main + popout); the server limits per user, not per socket.
+  const [tradingRateLimiter] = useState(() => new TokenBucketRateLimiter())
+
+  // Every client socket goes through the session recorder (it only keeps frames while recording).
+  // A loaded recording replaces real sockets for every connection opened after it is loaded.
+  const [wsRecorder] = useState(() => new WsRecorder())
+  const wsReplayerRef = useRef<WsReplayer | null>(null)
+  const [wsRecording, setWsRecording] = useState(false)
+  const [wsReplayName, setWsReplayName] = useState('')
+
+  useEffect(() => wsRecorder.onChange(() => setWsRecording(wsRecorder.isRecording)), [wsRecorder])
+
+  const webSocketFactoryFor = useCallback(
+    (source: WsRecordSource): WebSocketFactory =>
+      (url) =>
+        (wsReplayerRef.current ?? wsRecorder).factory(source)(url),
+    [wsRecorder],
+  )
+
+  // Streaming sockets are shared across tabs: only the leader tab connects upstream (and records them).
+  // Replays stay local to the tab that loaded them.
+  const [sharedSockets] = useState(
+    () =>
+      new SharedSockets({
+        sources: {
+          dataGateway: { protocol: dataGatewaySharedProtocol, factory: wsRecorder.factory('dataGateway') },
+          solanaTracker: { protocol: solanaTrackerSharedProtocol, factory: wsRecorder.factory('solanaTracker') },
+        },
+      }),
+  )
+  const [sharedSocketsRole, setSharedSocketsRole] = useState<SharedSocketsRole>(() => sharedSockets.role)
+
+  useEffect(() => sharedSockets.onRoleChange(setSharedSocketsRole), [sharedSockets])
+
+  const dataGatewaySocketFactory = useCallback<WebSocketFactory>(
+    (url) => (wsReplayerRef.current ? wsReplayerRef.current.factory('dataGateway')(url) : sharedSockets.factory('dataGateway')(url)),
+    [sharedSockets],
+  )
+
+  const solanaTrackerSocketFactory = useCallback<WebSocketFactory>(
+    (url) =>
+      wsReplayerRef.current ? wsReplayerRef.current.factory('solanaTracker')(url) : sharedSockets.factory('solanaTracker')(url),
+    [sharedSockets],
+  )
+
+  // Every TradingWs instance reports its own reconnect state machine; only the current one drives the UI.
+  // `opts.url` is the raw endpoint setting, which may list backups (comma/space separated).
+  const createTradingWs = useCallback((opts: WsClientOptions) => {
+    const [url = opts.url, ...fallbackUrls] = parseTradingEndpoints(opts.url)
+    const ws = new TradingWs({
+      ...opts,
+      url,
+      fallbackUrls,
+      rateLimiter: tradingRateLimiter,
+      webSocketFactory: webSocketFactoryFor('trading'),
+    })
+    ws.onStateChange((state) => {
+      if (wsRef.current !== ws) return
+      setWsStatus(state)
+      setWsAuthed(ws.isAuthed)
+      if (state === 'connected') {
+        setLastWsConnectedAt(Date.now())
+        if (wsActiveEndpointRef.current && wsActiveEndpointRef.current !== ws.endpointUrl) {
+          pushDebugEvent({
+            area: 'ws',
+            level: 'warn',
+            message: 'Trading WS switched endpoint',
+            detail: `${wsActiveEndpointRef.current} → ${ws.endpointUrl}`,
+          })
+        }
+        wsActiveEndpointRef.current = ws.endpointUrl
+        setWsActiveEndpoint(ws.endpointUrl)
+      }
+      if (state === 'reconnecting') setLastWsErrorAt(Date.now())
+    })
+    return ws
+  }, [pushDebugEvent, tradingRateLimiter, webSocketFactoryFor])
+
   const syncPositionsFromBackend = useCallback(
     async (reason?: string) => {
       if (!publicKey) return
@@ -1029,11 +1088,7 @@ function App() {
       let history: GetHistoryResult | null = null
 
       try {
-        positions = await ws.request<GetPositionsResult>(
-          { type: 'get_positions' },
-          (m): m is GetPositionsResult => m.type === 'get_positions_result',
-          12_000,
-        )
+        positions = await ws.getPositions({ timeoutMs: 12_000 })
       } catch (e) {
         pushDebugEvent({
           area: 'ws',
@@ -1044,11 +1099,7 @@ function App() {
       }
 
       try {
-        history = await ws.request<GetHistoryResult>(
-          { type: 'get_history' },
-          (m): m is GetHistoryResult => m.type === 'get_history_result',
-          12_000,
-        )
+        history = await ws.getHistory({ timeoutMs: 12_000 })
       } catch (e) {
         pushDebugEvent({
           area: 'ws',
@@ -1313,7 +1364,8 @@ function App() {
 
   useEffect(() => {
     if (import.meta.env.DEV) return
-    if (!activePopoutMint) return
+    // The popout chart and the wallet rooms (any connected wallet) both need a session.
+    if (!activePopoutMint && !publicKey) return
 
     const now = Date.now()
     const exp = solanaTrackerSession?.expiresAtMs ?? 0
@@ -1345,7 +1397,7 @@ function App() {
     return () => {
       cancelled = true
     }
-  }, [activePopoutMint, solanaTrackerSession, tier])
+  }, [activePopoutMint, publicKey, solanaTrackerSession, tier])
 
   const dataGatewayRef = useRef<DataGatewayWs | null>(null)
   const popoutCandleBuilderRef = useRef<Candles1sBuilder | null>(null)
@@ -1362,8 +1414,6 @@ function App() {
   const popoutWsDebugLogRef = useRef<Array<{ at: number; room: string; payload: unknown }>>([])
   const [popoutWsDebugText, setPopoutWsDebugText] = useState('')
   const popoutWsDebugFlushIdRef = useRef<number | null>(null)
-  const popoutWsRoomWinnersRef = useRef<{ tokenPrimary?: string; tokenStats?: string; poolStats?: string }>({})
-  const [popoutWsRoomWinners, setPopoutWsRoomWinners] = useState<{ tokenPrimary?: string; tokenStats?: string; poolStats?: string }>({})
   const [popoutSolanaTrackerWarning, setPopoutSolanaTrackerWarning] = useState<string>('')
   const [popoutSignals, setPopoutSignals] = useState<{
     holders?: number
@@ -1380,13 +1430,38 @@ function App() {
     tx5m?: number
     liquidityUsd?: number
   }>({})
+  // Gateway snapshot behind `popoutSignals`; only used for per-field staleness.
+  const [popoutSignalsSnapshot, setPopoutSignalsSnapshot] = useState<TokenMetricsSnapshot | null>(null)
+  const [popoutTrends, setPopoutTrends] = useState<PopoutTrends>({})
+
+  // Metric alert rules (per wallet), evaluated on every Data Gateway update.
+  const [alertEngine] = useState(() => new AlertEngine())
+  const [alertSettings, setAlertSettings] = useState<AlertSettings>(DEFAULT_ALERT_SETTINGS)
+  const alertSettingsRef = useRef<AlertSettings>(DEFAULT_ALERT_SETTINGS)
+  const [alertToasts, setAlertToasts] = useState<AlertFiring[]>([])
   const popoutPoolIdRef = useRef<string>('')
 
+  // Composite risk scores (per-wallet weights) for feed, watchlist and holdings mints.
+  const [riskSettings, setRiskSettings] = useState<RiskSettings>(DEFAULT_RISK_SETTINGS)
+  const [riskSnapshots, setRiskSnapshots] = useState<Record<string, TokenMetricsSnapshot>>({})
+
+  const [dataGatewayStatus, setDataGatewayStatus] = useState<{ state: DataGatewayConnectionState; attempt: number }>({
+    state: 'idle',
+    attempt: 0,
+  })
+
+  // VITE_DATA_GATEWAY_MOCK=<scenario> swaps the Data Gateway for the in-browser simulation (offline dev).
+  const [mockGatewayFactory] = useState(() => {
+    const scenario = parseMockScenario(import.meta.env.VITE_DATA_GATEWAY_MOCK)
+    return scenario ? createMockGatewaySocketFactory({ scenario }) : null
+  })
+
   // Data Gateway URL (localhost for dev, production gateway for deployed)
   const dataGatewayUrl = useMemo(() => {
+    if (mockGatewayFactory) return 'mock://data-gateway'
     if (import.meta.env.DEV) return 'ws://localhost:8913'
     return 'wss://dequandata.dequan.xyz'
-  }, [])
+  }, [mockGatewayFactory])
 
   useEffect(() => {
     const cur = dataGatewayRef.current
@@ -1397,6 +1472,17 @@ function App() {
     }
   }, [dataGatewayUrl])
 
+  // One Data Gateway client per tab, shared by the popout and the risk scores.
+  const getDataGateway = useCallback(() => {
+    if (!dataGatewayRef.current) {
+      dataGatewayRef.current = new DataGatewayWs({
+        url: dataGatewayUrl,
+        webSocketFactory: mockGatewayFactory ?? dataGatewaySocketFactory,
+      })
+    }
+    return dataGatewayRef.current
+  }, [dataGatewayUrl, dataGatewaySocketFactory, mockGatewayFactory])
+
   useEffect(() => {
     popoutWsDebugEnabledRef.current = popoutWsDebugOpen
   }, [popoutWsDebugOpen])
@@ -1411,13 +1497,6 @@ function App() {
     popoutWsDebugFlushIdRef.current = window.setTimeout(() => {
       popoutWsDebugFlushIdRef.current = null
       try {
-        const winners = popoutWsRoomWinnersRef.current
-        const header = [
-          `tokenPrimary=${winners.tokenPrimary || '—'}`,
-          `tokenStats=${winners.tokenStats || '—'}`,
-          `poolStats=${winners.poolStats || '—'}`,
-        ].join('   ')
-
         const lines = popoutWsDebugLogRef.current
           .slice()
           .reverse()
@@ -1431,7 +1510,7 @@ function App() {
             if (body.length > 1400) body = `${body.slice(0, 1400)}…`
             return `${new Date(e.at).toLocaleTimeString()}  ${e.room}  ${body}`
           })
-        setPopoutWsDebugText([header, '', ...lines].join('\n'))
+        setPopoutWsDebugText(lines.join('\n'))
       } catch {
         // ignore
       }
@@ -1470,8 +1549,6 @@ function App() {
       setPopoutLastTickAt(0)
       setPopoutCandleError('')
       setPopoutWsDebugText('')
-      setPopoutWsRoomWinners({})
-      popoutWsRoomWinnersRef.current = {}
       popoutWsDebugLogRef.current = []
       popoutCandleBuilderRef.current = null
       popoutMarkersRef.current = []
@@ -1506,6 +1583,8 @@ function App() {
     let cancelled = false
     let inFlight = false
     let intervalId: number | null = null
+    // Aborted on mint switch / close so a slow fallback quote can't tick the next mint's chart.
+    const popoutAbort = new AbortController()
 
     const builder = new Candles1sBuilder({ maxCandles: 1200, gapFill: true })
     
@@ -1535,8 +1614,6 @@ function App() {
     setPopoutLastTickAt(0)
     setPopoutCandleError('')
     setPopoutWsDebugText('')
-    setPopoutWsRoomWinners({})
-    popoutWsRoomWinnersRef.current = {}
     popoutWsDebugLogRef.current = []
     popoutMarkersRef.current = []
 
@@ -1582,6 +1659,7 @@ function App() {
 
     let priceFeedSubscribed = false
     let priceTickListenerCleanup: (() => void) | null = null
+    let priceFeedResubscribeCleanup: (() => void) | null = null
 
     const pollOnce = async () => {
       if (cancelled) return
@@ -1603,7 +1681,7 @@ function App() {
         }
 
         if (!wsRef.current) {
-          wsRef.current = new TradingWs({
+          wsRef.current = createTradingWs({
             url: wsUrl,
             wallet: desiredWallet,
             signMessage: walletSigAvailable ? signMessage! : undefined,
@@ -1633,11 +1711,11 @@ function App() {
         // ============================================================================
         if (!priceFeedSubscribed) {
           try {
-            // Add message listener for price_tick
-            priceTickListenerCleanup = ws.onMessage((msg) => {
+            // Add push listener for price_tick
+            priceTickListenerCleanup = ws.onPush((msg) => {
               if (msg.type === 'price_tick' && msg.mint === activePopoutMint) {
-                const price = typeof msg.priceUsd === 'number' ? msg.priceUsd : (typeof msg.price === 'number' ? msg.price : 0)
-                const timestamp = typeof msg.timestamp === 'number' ? msg.timestamp : Date.now()
+                const price = msg.priceUsd ?? msg.price ?? 0
+                const timestamp = msg.timestamp ?? Date.now()
                 if (price > 0) {
                   pushTick({ tsMs: timestamp, price })
                   recordPopoutWsDebug('__price_tick__', { mint: activePopoutMint, price, timestamp })
@@ -1648,6 +1726,16 @@ function App() {
             // Send subscribe_price message
             ws.send({ type: 'subscribe_price', mint: activePopoutMint })
             priceFeedSubscribed = true
+
+            // Server-side subscriptions don't survive a socket drop; renew after TradingWs reconnects.
+            priceFeedResubscribeCleanup = ws.onStateChange((state) => {
+              if (state !== 'connected') return
+              try {
+                ws.send({ type: 'subscribe_price', mint: activePopoutMint })
+              } catch {
+                // ignore
+              }
+            })
             console.log(`[CandleChart] Subscribed to price feed: ${activePopoutMint.slice(0, 8)}...`)
 
             // Clear any fallback error since we're using the real price feed now
@@ -1678,19 +1766,15 @@ function App() {
         const amountInLamports = toLamports(probeSol)
         if (amountInLamports <= 0) throw new Error('invalid_probe_amount')
 
-        const quote = await ws.request<QuoteResult>(
+        const quote = await ws.quote(
           {
-            type: 'quote',
-            params: {
-              userPubkey,
-              inputMint: SOL_MINT,
-              outputMint: activePopoutMint,
-              amountIn: amountInLamports.toString(),
-              slippageBps: clamp(slippageBps, 0, 50_000),
-            },
+            userPubkey,
+            inputMint: SOL_MINT,
+            outputMint: activePopoutMint,
+            amountIn: amountInLamports.toString(),
+            slippageBps: clamp(slippageBps, 0, 50_000),
           },
-          (m): m is QuoteResult => m.type === 'quote_result',
-          8_000,
+          { timeoutMs: 8_000, signal: popoutAbort.signal, priority: 'background' },
         )
 
         recordPopoutWsDebug('__quote_result__', quote)
@@ -1730,6 +1814,7 @@ function App() {
 
     return () => {
       cancelled = true
+      popoutAbort.abort()
       
       // Save candle history before cleanup
       if (builder && activePopoutMint) {
@@ -1754,6 +1839,10 @@ function App() {
         priceTickListenerCleanup()
         priceTickListenerCleanup = null
       }
+      if (priceFeedResubscribeCleanup) {
+        priceFeedResubscribeCleanup()
+        priceFeedResubscribeCleanup = null
+      }
 
       if (intervalId != null) {
         window.clearInterval(intervalId)
@@ -1768,30 +1857,189 @@ function App() {
         popoutMarkersRafRef.current = null
       }
     }
-  }, [activePopoutMint, amountSol, apiKey, authToken, bumpUserRateLimitBackoff, isUserRateLimitedError, publicKey, pushPopoutMarker, recordPopoutWsDebug, signMessage, slippageBps, userRateLimitUntilMs, wsUrl])
+  }, [activePopoutMint, amountSol, apiKey, authToken, bumpUserRateLimitBackoff, createTradingWs, isUserRateLimitedError, publicKey, pushPopoutMarker, recordPopoutWsDebug, signMessage, slippageBps, userRateLimitUntilMs, wsUrl])
+
+  useEffect(() => {
+    // Load wallet-specific alert rules when wallet connects or changes
+    setAlertSettings(publicKey ? loadAlertSettings(publicKey.toBase58()) : DEFAULT_ALERT_SETTINGS)
+  }, [publicKey])
+
+  useEffect(() => {
+    alertSettingsRef.current = alertSettings
+    alertEngine.setRules(alertSettings.rules)
+  }, [alertEngine, alertSettings])
+
+  // Saved immediately (not from an effect) so switching wallets can't write one wallet's rules under another's key.
+  const updateAlertSettings = useCallback(
+    (next: AlertSettings) => {
+      setAlertSettings(next)
+      if (!publicKey) return
+      try {
+        saveAlertSettings(publicKey.toBase58(), next)
+      } catch {
+        // ignore
+      }
+    },
+    [publicKey],
+  )
+
+  useEffect(() => {
+    setRiskSettings(publicKey ? loadRiskSettings(publicKey.toBase58()) : DEFAULT_RISK_SETTINGS)
+  }, [publicKey])
+
+  const updateRiskSettings = useCallback(
+    (next: RiskSettings) => {
+      setRiskSettings(next)
+      if (!publicKey) return
+      try {
+        saveRiskSettings(publicKey.toBase58(), next)
+      } catch {
+        // ignore
+      }
+    },
+    [publicKey],
+  )
+
+  // Feed rows past the visible limit are scored too, so the risk filter can backfill hidden rows.
+  const riskMints = useMemo(() => {
+    const mints = new Set<string>()
+    for (const t of feed.slice(0, gates.liveFeedLimit * 2)) mints.add(t.mint)
+    for (const t of watched) mints.add(t.mint)
+    for (const h of holdings) mints.add(h.mint)
+    return Array.from(mints).sort()
+  }, [feed, gates.liveFeedLimit, holdings, watched])
+  const riskMintsKey = riskMints.join(',')
+
+  useEffect(() => {
+    const mints = riskMintsKey ? riskMintsKey.split(',') : []
+    if (!mints.length) {
+      setRiskSnapshots({})
+      return
+    }
+    const gateway = getDataGateway()
+    // The popout owns retries after a failure; here we only start an idle client.
+    if (gateway.connectionState === 'idle') gateway.connect().catch(() => {})
+
+    // Updates arrive per mint per second; re-render at most once a second.
+    const dirty = new Set<string>(mints)
+    const unsubs = mints.map((mint) => gateway.onToken(mint, () => dirty.add(mint)))
+    const flush = () => {
+      if (!dirty.size) return
+      const changed = Array.from(dirty)
+      dirty.clear()
+      setRiskSnapshots((prev) => {
+        const next: Record<string, TokenMetricsSnapshot> = {}
+        for (const mint of mints) {
+          const snap = changed.includes(mint) ? gateway.getSnapshot(mint) : prev[mint]
+          if (snap) next[mint] = snap
+        }
+        return next
+      })
+    }
+    flush()
+    const id = window.setInterval(flush, 1000)
+    return () => {
+      window.clearInterval(id)
+      for (const unsub of unsubs) unsub()
+    }
+  }, [getDataGateway, riskMintsKey])
+
+  const riskByMint = useMemo(() => {
+    const rugByMint = new Map<string, RugCheckToken>()
+    for (const t of feed) rugByMint.set(t.mint, t)
+    for (const h of holdings) rugByMint.set(h.mint, h)
+    for (const t of watched) if (!rugByMint.has(t.mint)) rugByMint.set(t.mint, { error: t.error ?? null })
+    const out: Record<string, TokenRiskScore> = {}
+    for (const mint of riskMints) {
+      const risk = computeRiskScore(riskInputsFromSnapshot(riskSnapshots[mint]), rugByMint.get(mint) ?? null, riskSettings.weights)
+      if (risk) out[mint] = risk
+    }
+    return out
+  }, [feed, holdings, riskMints, riskSettings.weights, riskSnapshots, watched])
+
+  // Unscored tokens always pass; the filter only hides what it knows is risky.
+  const riskFilteredFeed = useMemo(() => {
+    const max = riskSettings.feedMaxScore
+    if (max == null) return feed
+    return feed.filter((t) => !riskByMint[t.mint] || riskByMint[t.mint].score < max)
+  }, [feed, riskByMint, riskSettings.feedMaxScore])
+  const riskHiddenCount = feed.length - riskFilteredFeed.length
+
+  const dismissAlertToast = useCallback((firing: AlertFiring) => {
+    setAlertToasts((prev) => prev.filter((x) => x !== firing))
+  }, [])
+
+  const fireAlerts = useCallback(
+    (firings: AlertFiring[]) => {
+      const settings = alertSettingsRef.current
+      setAlertToasts((prev) => [...firings, ...prev].slice(0, 4))
+      for (const f of firings) {
+        window.setTimeout(() => dismissAlertToast(f), 10_000)
+        if (settings.notify) showAlertNotification(f)
+      }
+      if (settings.sound) playAlertSound()
+    },
+    [dismissAlertToast],
+  )
+
+  // Rules are evaluated whether or not a chart is open: "all tokens" rules cover watched, held and
+  // charted mints, mint rules keep their own mint subscribed.
+  const alertMints = useMemo(() => {
+    const rules = alertSettings.rules.filter((r) => r.enabled)
+    const mints = new Set<string>()
+    for (const r of rules) if (r.mint) mints.add(r.mint)
+    if (rules.some((r) => !r.mint)) {
+      for (const t of watched) mints.add(t.mint)
+      for (const h of holdings) mints.add(h.mint)
+      if (activePopoutMint) mints.add(activePopoutMint)
+    }
+    return Array.from(mints).sort()
+  }, [activePopoutMint, alertSettings.rules, holdings, watched])
+  const alertMintsKey = alertMints.join(',')
+
+  useEffect(() => {
+    const mints = alertMintsKey ? alertMintsKey.split(',') : []
+    if (!mints.length) return
+    const gateway = getDataGateway()
+    if (gateway.connectionState === 'idle') gateway.connect().catch(() => {})
+    const unsubs = mints.map((mint) =>
+      gateway.onToken(mint, (msg) => {
+        const firings = alertEngine.evaluate(msg, gateway)
+        if (firings.length) fireAlerts(firings)
+      }),
+    )
+    return () => {
+      for (const unsub of unsubs) unsub()
+    }
+  }, [alertEngine, alertMintsKey, fireAlerts, getDataGateway])
 
   useEffect(() => {
     if (!activePopoutMint) {
       setPopoutSignals({})
+      setPopoutSignalsSnapshot(null)
+      setPopoutTrends({})
       popoutPoolIdRef.current = ''
       setPopoutSolanaTrackerWarning('')
       return
     }
 
-    if (!dataGatewayRef.current) {
-      dataGatewayRef.current = new DataGatewayWs({ url: dataGatewayUrl })
-    }
-    const gateway = dataGatewayRef.current
+    const gateway = getDataGateway()
     const mint = activePopoutMint
 
-    // Connect and subscribe
+    const unsubState = gateway.onStateChange((state) => {
+      setDataGatewayStatus({ state, attempt: gateway.reconnectAttempts })
+      if (state === 'open') setPopoutSolanaTrackerWarning('')
+      else if (state === 'reconnecting') {
+        setPopoutSolanaTrackerWarning(`Data Gateway degraded: reconnecting (attempt ${gateway.reconnectAttempts})`)
+      } else if (state === 'failed') setPopoutSolanaTrackerWarning('Data Gateway unavailable. Reopen the chart to retry.')
+    })
+
+    // Connect; the `onToken` listener below subscribes the mint (ref-counted by the client).
+    // Failures surface through `onStateChange` while the client backs off and retries.
     gateway.connect().catch((err) => {
       console.error('[DataGateway] Connection failed:', err)
-      setPopoutSolanaTrackerWarning('Data Gateway connection failed')
     })
 
-    gateway.subscribe(mint)
-
     const unsubGlobal = gateway.onMessage((msg) => {
       if (msg.type === 'error') {
         recordPopoutWsDebug('__gateway__', msg)
@@ -1806,6 +2054,41 @@ function App() {
     let lastInsider: number | undefined
     let lastCurve: number | undefined
 
+    // Render whatever the gateway already knows (e.g. reopening a recent popout) instead of blanks.
+    const seed = gateway.getSnapshot(mint)
+    if (seed) {
+      const f = seed.fields
+      lastTop10 = f.top10Pct?.value
+      lastDev = f.devPct?.value
+      lastSniper = f.sniperPct?.value
+      lastInsider = f.insiderPct?.value
+      lastCurve = f.curvePct?.value
+      popoutPoolIdRef.current = f.primaryPoolId?.value ?? ''
+      setPopoutSignals({
+        holders: f.holders?.value,
+        top10Pct: lastTop10,
+        devPct: lastDev,
+        sniperPct: lastSniper,
+        insiderPct: lastInsider,
+        feesUsd: f.feesUsd?.value,
+        curvePct: lastCurve,
+        graduating: f.graduated?.value ? false : f.graduating?.value,
+        graduated: f.graduated?.value,
+        primaryPoolId: f.primaryPoolId?.value,
+        vol5mUsd: f.vol5mUsd?.value,
+        tx5m: f.tx5m?.value,
+        liquidityUsd: f.liquidityUsd?.value,
+      })
+    }
+    setPopoutSignalsSnapshot(seed)
+
+    const readTrends = (): PopoutTrends => {
+      const out: PopoutTrends = {}
+      for (const field of POPOUT_TREND_FIELDS) out[field] = gateway.change(mint, field, POPOUT_TREND_WINDOW_MS)
+      return out
+    }
+    setPopoutTrends(readTrends())
+
     const maybeMarkCross = (label: string, prev: number | undefined, next: number, threshold: number, color: string) => {
       const crossed = (typeof prev !== 'number' || prev < threshold) && next >= threshold
       if (!crossed) return
@@ -1934,16 +2217,35 @@ function App() {
       if (Object.keys(updates).length > 0) {
         setPopoutSignals((prev) => ({ ...prev, ...updates }))
       }
+      setPopoutSignalsSnapshot(gateway.getSnapshot(mint))
+      setPopoutTrends(readTrends())
     })
 
     return () => {
+      unsubState()
       unsubGlobal()
       unsubMetrics()
-      gateway.unsubscribe(mint)
       popoutPoolIdRef.current = ''
       setPopoutSignals({})
+      setPopoutSignalsSnapshot(null)
+      setPopoutTrends({})
     }
-  }, [activePopoutMint, pushPopoutMarker, recordPopoutWsDebug, dataGatewayUrl])
+  }, [activePopoutMint, pushPopoutMarker, recordPopoutWsDebug, getDataGateway])
+
+  const popoutStaleFields = useMemo(() => staleTokenMetricFields(popoutSignalsSnapshot, uiNow), [popoutSignalsSnapshot, uiNow])
+  const popoutDisagreements = useMemo(() => tokenMetricDisagreements(popoutSignalsSnapshot, uiNow), [popoutSignalsSnapshot, uiNow])
+
+  // Stale gateway values stay visible but greyed out until the next update; fields where sources
+  // disagree are outlined. The tooltip says which source each value came from.
+  const popoutSignalProps = useCallback(
+    (field: TokenMetricField, bad = false) => ({
+      className: `popoutSignal${bad ? ' popoutSignalBad' : ''}${popoutStaleFields.has(field) ? ' popoutSignalStale' : ''}${
+        popoutDisagreements.some((d) => d.field === field) ? ' popoutSignalDisagree' : ''
+      }`,
+      title: describeTokenMetricProvenance(popoutSignalsSnapshot?.fields[field], uiNow),
+    }),
+    [popoutDisagreements, popoutSignalsSnapshot, popoutStaleFields, uiNow],
+  )
 
   useEffect(() => {
     const id = window.setInterval(() => setUiNow(Date.now()), 2000)
@@ -2498,6 +2800,287 @@ function App() {
     void refreshBotWalletBalance()
   }, [refreshBotWalletBalance, botWalletPubkey])
 
+  // SolanaTracker `wallet:<pubkey>` rooms for every key we trade from: they confirm our swaps before
+  // RPC polling does and surface trades made from other apps on the same wallets.
+  const walletActivityRef = useRef<WalletActivityWatcher | null>(null)
+  const walletActivityWallets = useMemo(() => {
+    const out: WatchedWallet[] = []
+    if (publicKey) out.push({ pubkey: publicKey.toBase58(), role: 'wallet' })
+    if (botWalletPubkey) out.push({ pubkey: botWalletPubkey, role: 'bot' })
+    if (fastModeSessionPubkey) out.push({ pubkey: fastModeSessionPubkey, role: 'fastMode' })
+    return out
+  }, [botWalletPubkey, fastModeSessionPubkey, publicKey])
+  const walletActivityEnabled = Boolean(solanaTrackerWsUrl) && walletActivityWallets.length > 0
+
+  useEffect(() => {
+    if (!walletActivityEnabled) return
+    // Wallet rooms are quiet between trades, so silence says nothing about their health.
+    const ws = new SolanaTrackerWs({ url: solanaTrackerWsUrl, webSocketFactory: solanaTrackerSocketFactory, silentRejoinMs: 0 })
+    const watcher = new WalletActivityWatcher({ ws })
+    walletActivityRef.current = watcher
+    // Failed attempts keep retrying through the client's own reconnect loop.
+    ws.connect().catch(() => {})
+    return () => {
+      if (walletActivityRef.current === watcher) walletActivityRef.current = null
+      watcher.destroy()
+      ws.destroy()
+    }
+  }, [solanaTrackerSocketFactory, solanaTrackerWsUrl, walletActivityEnabled])
+
+  // Declared after the effect above so it sees this render's watcher.
+  useEffect(() => {
+    walletActivityRef.current?.setWallets(walletActivityWallets)
+  }, [solanaTrackerSocketFactory, solanaTrackerWsUrl, walletActivityEnabled, walletActivityWallets])
+
+  useEffect(() => {
+    const watcher = walletActivityRef.current
+    if (!watcher) return
+    const trader = activeTraderPubkey?.toBase58() ?? ''
+
+    const unsubTrade = watcher.onTrade((trade) => {
+      if (!trade.external) return
+      const token = trade.token ? `${trade.token.slice(0, 4)}…${trade.token.slice(-4)}` : 'unknown token'
+      pushDebugEvent({
+        area: 'trade',
+        level: 'warn',
+        message: `External ${trade.side} (${trade.role} wallet)`,
+        detail: `${trade.token ?? '—'} · ${trade.signature}`,
+      })
+      fireAlerts([
+        {
+          ruleId: 'external_trade',
+          mint: trade.token ?? '',
+          at: trade.time,
+          title: `${trade.side === 'buy' ? 'Buy' : 'Sell'} made outside dequanSwap`,
+          body: `${trade.role === 'wallet' ? 'Your wallet' : trade.role === 'bot' ? 'Bot wallet' : 'Fast Mode key'} ${trade.side === 'buy' ? 'bought' : 'sold'} ${token}`,
+        },
+      ])
+      void syncPositionsFromBackend('external_trade')
+    })
+
+    // Balance rooms push the new SOL balance directly; token balances are re-read for the selected mint only.
+    const unsubBalance = watcher.onBalance((balance) => {
+      if (balance.token) {
+        if (balance.wallet === trader && balance.token === tokenMint.trim()) void refreshBalances()
+        return
+      }
+      const lamports = Math.round(balance.amount * LAMPORTS_PER_SOL)
+      if (balance.wallet === trader) setSolBalanceLamports(lamports)
+      if (balance.role === 'bot') setBotWalletSolLamports(lamports)
+    })
+
+    return () => {
+      unsubTrade()
+      unsubBalance()
+    }
+  }, [
+    activeTraderPubkey,
+    fireAlerts,
+    pushDebugEvent,
+    refreshBalances,
+    solanaTrackerSocketFactory,
+    solanaTrackerWsUrl,
+    syncPositionsFromBackend,
+    tokenMint,
+    walletActivityEnabled,
+  ])
+
+  // Popout trade tape, fed by the token's `transaction:<mint>` room. Trades are buffered and flushed
+  // a few times a second; hot tokens print hundreds of swaps per second.
+  const [popoutTape, setPopoutTape] = useState<{ mint: string; trades: TradeEvent[] }>({ mint: '', trades: [] })
+  const [tradeTapeFilters, setTradeTapeFilters] = useState<TradeTapeFilters>(() => loadTradeTapeFilters())
+  const [knownSnipers, setKnownSnipers] = useState(() => loadKnownSnipers())
+
+  const updateTradeTapeFilters = useCallback((next: TradeTapeFilters) => {
+    setTradeTapeFilters(next)
+    try {
+      saveTradeTapeFilters(next)
+    } catch {
+      // ignore
+    }
+  }, [])
+
+  // Launch streams add snipers in bursts; write the registry once things settle.
+  useEffect(() => {
+    const id = window.setTimeout(() => {
+      try {
+        saveKnownSnipers(knownSnipers)
+      } catch {
+        // ignore
+      }
+    }, 2000)
+    return () => window.clearTimeout(id)
+  }, [knownSnipers])
+
+  // Whale / dev / insider detection runs on the same stream; its context changes too often to
+  // resubscribe for, so the stream reads it from a ref.
+  const [popoutCreator, setPopoutCreator] = useState<{ mint: string; creator: string | null }>({ mint: '', creator: null })
+  const tokenCreatorCacheRef = useRef<Map<string, string | null>>(new Map())
+  const knownSniperClusters = useMemo(() => sniperClusters(knownSnipers), [knownSnipers])
+  const tradeSignalContextRef = useRef<TradeSignalContext>({ creator: null, snipers: {}, clusters: new Set() })
+
+  useEffect(() => {
+    tradeSignalContextRef.current = {
+      creator: popoutCreator.mint === activePopoutMint ? popoutCreator.creator : null,
+      snipers: knownSnipers,
+      clusters: knownSniperClusters,
+    }
+  }, [activePopoutMint, knownSniperClusters, knownSnipers, popoutCreator])
+
+  useEffect(() => {
+    if (!activePopoutMint) return
+    const mint = activePopoutMint
+    const cached = tokenCreatorCacheRef.current
+    if (cached.has(mint)) {
+      setPopoutCreator({ mint, creator: cached.get(mint) ?? null })
+      return
+    }
+    let cancelled = false
+    void (async () => {
+      try {
+        const creator = await getTokenCreator(connection, new PublicKey(mint))
+        cached.set(mint, creator)
+        if (!cancelled) setPopoutCreator({ mint, creator })
+      } catch {
+        // ignore: without a creator only dev flags are lost
+      }
+    })()
+    return () => {
+      cancelled = true
+    }
+  }, [activePopoutMint, connection])
+
+  // Room health for the popout WS debug panel, read once a second while it is open.
+  const popoutTrackerRef = useRef<SolanaTrackerWs | null>(null)
+  const [popoutRoomStats, setPopoutRoomStats] = useState<SolanaTrackerRoomStats[]>([])
+
+  useEffect(() => {
+    if (!popoutWsDebugOpen || !activePopoutMint) return
+    const read = () => setPopoutRoomStats(popoutTrackerRef.current?.getRoomStats() ?? [])
+    read()
+    const id = window.setInterval(read, 1000)
+    return () => window.clearInterval(id)
+  }, [activePopoutMint, popoutWsDebugOpen])
+
+  const popoutLaunchedAt = useMemo(
+    () => (activePopoutMint ? feed.find((t) => t.mint === activePopoutMint)?.startedAt : undefined),
+    [activePopoutMint, feed],
+  )
+
+  // Read by the stream below so feed updates and new callbacks don't reset the socket, detector or throttles.
+  const popoutTapeContextRef = useRef({ launchedAt: popoutLaunchedAt, fireAlerts, pushPopoutMarker })
+
+  useEffect(() => {
+    popoutTapeContextRef.current = { launchedAt: popoutLaunchedAt, fireAlerts, pushPopoutMarker }
+  }, [fireAlerts, popoutLaunchedAt, pushPopoutMarker])
+
+  useEffect(() => {
+    if (!activePopoutMint || !solanaTrackerWsUrl) return
+    const mint = activePopoutMint
+    const room = `transaction:${mint}`
+    const ws = new SolanaTrackerWs({ url: solanaTrackerWsUrl, webSocketFactory: solanaTrackerSocketFactory })
+    popoutTrackerRef.current = ws
+    const detector = new TradeSignalDetector()
+    const lastAlertAt = new Map<TradeFlag, number>()
+    let pending: TradeEvent[] = []
+    let flushTimer: number | null = null
+
+    const onSignal = (signal: TradeSignal) => {
+      const { trade } = signal
+      const text = describeTradeSignal(signal)
+      const { fireAlerts, pushPopoutMarker } = popoutTapeContextRef.current
+      pushPopoutMarker(mint, {
+        time: Math.floor(trade.time / 1000),
+        position: trade.side === 'buy' ? 'belowBar' : 'aboveBar',
+        shape: 'circle',
+        color: trade.side === 'buy' ? 'rgba(45,226,230,0.95)' : 'rgba(248,81,73,0.95)',
+        text,
+      })
+      // One alert per flag per minute; the chart markers carry the full picture.
+      const flag = signal.flags[0]
+      const now = Date.now()
+      if (now - (lastAlertAt.get(flag) ?? 0) < 60_000) return
+      lastAlertAt.set(flag, now)
+      fireAlerts([
+        {
+          ruleId: `trade_signal_${flag}`,
+          mint,
+          at: trade.time,
+          title: text,
+          body: [
+            `Wallet ${trade.wallet.slice(0, 4)}…${trade.wallet.slice(-4)}`,
+            typeof signal.sizePercentile === 'number' ? `size p${Math.round(signal.sizePercentile)}` : '',
+            signal.flags.length > 1 ? signal.flags.join(' + ') : '',
+          ]
+            .filter(Boolean)
+            .join(' · '),
+        },
+      ])
+    }
+
+    const flush = () => {
+      flushTimer = null
+      const batch = pending
+      pending = []
+      setPopoutTape((prev) => ({ mint, trades: pushTapeTrades(prev.mint === mint ? prev.trades : [], batch) }))
+      const { launchedAt } = popoutTapeContextRef.current
+      for (const t of batch) {
+        if (isSnipeBuy(t, launchedAt)) setKnownSnipers((prev) => recordSnipe(prev, t.wallet, mint, t.time))
+      }
+    }
+
+    const unsub = ws.onRoomEvent(room, (event) => {
+      if (event.kind !== 'trade') return
+      const signal = detector.push(event, tradeSignalContextRef.current)
+      if (signal) onSignal(signal)
+      pending.push(event)
+      if (flushTimer == null) flushTimer = window.setTimeout(flush, 250)
+    })
+    ws.join(room)
+    ws.connect().catch(() => {})
+
+    return () => {
+      if (flushTimer != null) window.clearTimeout(flushTimer)
+      unsub()
+      if (popoutTrackerRef.current === ws) popoutTrackerRef.current = null
+      ws.destroy()
+    }
+  }, [activePopoutMint, solanaTrackerSocketFactory, solanaTrackerWsUrl])
+
+  const popoutTapeTrades = useMemo<TapeTrade[]>(() => {
+    if (popoutTape.mint !== activePopoutMint) return []
+    const ours = new Set(walletActivityWallets.map((w) => w.pubkey))
+    const creator = popoutCreator.mint === activePopoutMint ? popoutCreator.creator : null
+    return popoutTape.trades.map((t) => ({
+      ...t,
+      ours: ours.has(t.wallet),
+      sniper: Boolean(knownSnipers[t.wallet]),
+      dev: Boolean(creator) && t.wallet === creator,
+    }))
+  }, [activePopoutMint, knownSnipers, popoutCreator, popoutTape, walletActivityWallets])
+
+  // Wallet rooms usually report our swap before RPC polling sees it confirmed; whichever answers first wins.
+  // A wallet room only reports landed swaps, so failures and drops still come from RPC.
+  const confirmTradeSignature = useCallback(
+    async (signature: string, opts: { timeoutMs: number; pollIntervalMs: number }) => {
+      const watcher = walletActivityRef.current
+      const abort = new AbortController()
+      const rpc = confirmSignatureWithFallback(connection, signature, { commitment: 'confirmed', ...opts, signal: abort.signal })
+      if (!watcher) return rpc
+      const room = watcher.waitForSignature(signature, { timeoutMs: opts.timeoutMs, signal: abort.signal }).then((trade) => {
+        if (!trade) return rpc
+        pushDebugEvent({ area: 'trade', level: 'info', message: 'Confirmed via wallet room', detail: signature })
+        return 'confirmed' as const
+      })
+      try {
+        return await Promise.race([rpc, room])
+      } finally {
+        abort.abort()
+      }
+    },
+    [connection, pushDebugEvent],
+  )
+
   useEffect(() => {
     // Load wallet-specific holdings when wallet connects or changes
     if (publicKey) {
@@ -2549,7 +3132,7 @@ function App() {
 
     try {
       wsRef.current?.close()
-      const ws = new TradingWs({
+      const ws = createTradingWs({
         url: wsUrl,
         wallet: walletSigAvailable ? publicKey!.toBase58() : undefined,
         signMessage: walletSigAvailable ? signMessage! : undefined,
@@ -2562,7 +3145,7 @@ function App() {
       setWsStatus('connected')
       setWsAuthed(ws.isAuthed)
       setLastWsConnectedAt(Date.now())
-      pushDebugEvent({ area: 'ws', level: 'info', message: 'Trading WS connected', detail: wsUrl })
+      pushDebugEvent({ area: 'ws', level: 'info', message: 'Trading WS connected', detail: ws.endpointUrl })
       setStep('idle')
     } catch (e) {
       recordTradingApiError(e)
@@ -2579,12 +3162,7 @@ function App() {
       if (e instanceof Error && e.message === 'WebSocket connection error') {
         const healthzHint = (() => {
           try {
-            const u = new URL(wsUrl)
-            u.protocol = u.protocol === 'wss:' ? 'https:' : 'http:'
-            u.pathname = '/healthz'
-            u.search = ''
-            u.hash = ''
-            return u.toString()
+            return healthzUrlForWsUrl(wsRef.current?.endpointUrl || parseTradingEndpoints(wsUrl)[0] || '')
           } catch {
             return ''
           }
@@ -2599,7 +3177,7 @@ function App() {
         setError(e instanceof Error ? e.message : 'Failed to connect Trading API')
       }
     }
-  }, [apiKey, authToken, publicKey, signMessage, pushDebugEvent, recordTradingApiError, wsUrl])
+  }, [apiKey, authToken, createTradingWs, publicKey, signMessage, pushDebugEvent, recordTradingApiError, wsUrl])
 
   // Do not auto-connect on mount.
   // We connect on-demand (quotes/snipe) or via the Debug Portal button.
@@ -2633,7 +3211,7 @@ function App() {
     }
 
     if (!wsRef.current) {
-      wsRef.current = new TradingWs({
+      wsRef.current = createTradingWs({
         url: wsUrl,
         wallet: desiredWallet,
         signMessage: walletSigAvailable ? signMessage! : undefined,
@@ -2675,8 +3253,7 @@ function App() {
       }
 
       wsEventsBoundToRef.current = wsRef.current
-      wsEventsUnsubRef.current = wsRef.current.onMessage((m) => {
-        const msg = m as Partial<OrderUpdateMsg | PositionUpdateMsg>
+      const unsubMessages = wsRef.current.onPush((msg) => {
         if (msg.type === 'position_update') {
           void syncPositionsFromBackend('position_update')
         }
@@ -2684,12 +3261,20 @@ function App() {
           void syncPositionsFromBackend('order_update')
         }
       })
+      // Updates pushed while the socket was down are lost; resync once TradingWs has reconnected.
+      const unsubState = wsRef.current.onStateChange((state) => {
+        if (state === 'connected') void syncPositionsFromBackend('ws_reconnect')
+      })
+      wsEventsUnsubRef.current = () => {
+        unsubMessages()
+        unsubState()
+      }
 
       void syncPositionsFromBackend('ws_bind')
     }
 
     return wsRef.current
-  }, [apiKey, authToken, publicKey, recordTradingApiError, signMessage, syncPositionsFromBackend, wsUrl])
+  }, [apiKey, authToken, createTradingWs, publicKey, recordTradingApiError, signMessage, syncPositionsFromBackend, wsUrl])
 
   const autoAuthedWalletRef = useRef<string>('')
   const autoAuthInFlightRef = useRef(false)
@@ -2768,9 +3353,116 @@ function App() {
     })()
   }, [connected, ensureWs, publicKey, recordTradingApiError, signMessage])
 
+  const [quoteScheduler] = useState(() => new QuoteScheduler())
+
+  // Folds one quote into the watched/holdings rows (price proxy, growth, refresh rate).
+  const applyWatchedQuote = useCallback(
+    (mint: string, quoteData: { amountIn: string; amountOut: string }) => {
+      const amountOutBaseUnits = BigInt(quoteData.amountOut)
+      const amountIn = BigInt(quoteData.amountIn)
+      const priceProxyScaled = computePriceProxyScaled(amountIn, amountOutBaseUnits)
+
+      // Best-effort numeric proxy for UI display.
+      const proxyNum =
+        bigintAbs(priceProxyScaled) <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(priceProxyScaled) / Number(PRICE_PROXY_SCALE) : undefined
+
+      quoteScheduler.recordQuote(mint, proxyNum)
+      const quoteRefreshMs = quoteScheduler.effectiveIntervalMs(mint)
+
+      setWatched((prev) =>
+        prev.map((x) => {
+          if (x.mint !== mint) return x
+          const baseScaled = x.basePriceProxyScaled ? bigintFromString(x.basePriceProxyScaled) : priceProxyScaled
+
+          // Avoid Number() overflow (Infinity/NaN) for illiquid tokens.
+          // Compute percent growth using bigint math, clamped to a sane range.
+          let growthPct: number | undefined
+          if (baseScaled > 0n) {
+            const delta = priceProxyScaled - baseScaled
+            const pctTimes100 = (delta * 10000n) / baseScaled // percent * 100
+            const maxPctTimes100 = 100_000_000n // 1,000,000.00%
+            const clamped =
+              pctTimes100 > maxPctTimes100 ? maxPctTimes100 : pctTimes100 < -maxPctTimes100 ? -maxPctTimes100 : pctTimes100
+            growthPct = Number(clamped) / 100
+          }
+
+          return {
+            ...x,
+            error: undefined,
+            basePriceProxyScaled: x.basePriceProxyScaled ?? baseScaled.toString(),
+            lastPriceProxyScaled: priceProxyScaled.toString(),
+            // Keep legacy numeric fields best-effort; avoid storing Infinity.
+            basePriceProxy:
+              bigintAbs(baseScaled) <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(baseScaled) / Number(PRICE_PROXY_SCALE) : x.basePriceProxy,
+            lastPriceProxy:
+              bigintAbs(priceProxyScaled) <= BigInt(Number.MAX_SAFE_INTEGER)
+                ? Number(priceProxyScaled) / Number(PRICE_PROXY_SCALE)
+                : x.lastPriceProxy,
+            growthPct: typeof growthPct === 'number' && Number.isFinite(growthPct) ? growthPct : x.growthPct ?? 0,
+            lastUpdatedAt: Date.now(),
+            quoteRefreshMs: quoteRefreshMs ?? x.quoteRefreshMs,
+          }
+        }),
+      )
+
+      // Mirror quote-proxy updates into Holdings too (Phase 1 requirement).
+      setHoldings((prev) =>
+        prev.map((h) => {
+          if (h.mint !== mint) return h
+          const entryScaled = h.entryPriceProxyScaled ? bigintFromString(h.entryPriceProxyScaled) : priceProxyScaled
+
+          let growthPct: number | undefined
+          if (entryScaled > 0n) {
+            const delta = priceProxyScaled - entryScaled
+            const pctTimes100 = (delta * 10000n) / entryScaled
+            const maxPctTimes100 = 100_000_000n
+            const clamped =
+              pctTimes100 > maxPctTimes100 ? maxPctTimes100 : pctTimes100 < -maxPctTimes100 ? -maxPctTimes100 : pctTimes100
+            growthPct = Number(clamped) / 100
+          }
+
+          const entryNum =
+            bigintAbs(entryScaled) <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(entryScaled) / Number(PRICE_PROXY_SCALE) : h.entryPriceProxy
+
+          const changed =
+            h.lastPriceProxyScaled !== priceProxyScaled.toString() ||
+            h.entryPriceProxyScaled !== (h.entryPriceProxyScaled ?? entryScaled.toString()) ||
+            h.proxyGrowthPct !== (typeof growthPct === 'number' && Number.isFinite(growthPct) ? growthPct : h.proxyGrowthPct)
+          if (!changed) return h
+
+          return {
+            ...h,
+            entryPriceProxyScaled: h.entryPriceProxyScaled ?? entryScaled.toString(),
+            lastPriceProxyScaled: priceProxyScaled.toString(),
+            entryPriceProxy: h.entryPriceProxy ?? entryNum,
+            lastPriceProxy: proxyNum ?? h.lastPriceProxy,
+            proxyGrowthPct: typeof growthPct === 'number' && Number.isFinite(growthPct) ? growthPct : h.proxyGrowthPct,
+          }
+        }),
+      )
+    },
+    [quoteScheduler],
+  )
+
+  const applyWatchedQuoteError = useCallback(
+    (mint: string, e: unknown) => {
+      // Failed attempts still count, so a broken mint doesn't jump the queue every tick.
+      quoteScheduler.recordQuote(mint)
+      recordTradingApiError(e)
+      if (isUserRateLimitedError(e)) {
+        bumpUserRateLimitBackoff()
+        return
+      }
+      const msg = e instanceof Error ? e.message : 'Quote failed'
+      setWatched((prev) => prev.map((x) => (x.mint === mint ? { ...x, error: msg, lastUpdatedAt: Date.now() } : x)))
+    },
+    [bumpUserRateLimitBackoff, isUserRateLimitedError, quoteScheduler, recordTradingApiError],
+  )
+
   const quoteWatchedMint = useCallback(
-    async (mint: string) => {
+    async (mint: string, signal?: AbortSignal) => {
       if (Date.now() < userRateLimitUntilMs) return
+      if (signal?.aborted) return
 
       const quoteUserPubkey = publicKey?.toBase58() || READONLY_PUBKEY
 
@@ -2784,113 +3476,104 @@ function App() {
       const amountInLamports = toLamports(Number(amountSol))
       if (amountInLamports <= 0) return
 
-      try {
-        const quote = await ws.request<QuoteResult>(
-          {
-            type: 'quote',
-            params: {
+      try {
+        const quote = await ws.quote(
+          {
+            userPubkey: quoteUserPubkey,
+            inputMint: SOL_MINT,
+            outputMint: mint,
+            amountIn: amountInLamports.toString(),
+            slippageBps: clamp(slippageBps, 0, 50_000),
+          },
+          { timeoutMs: 12_000, signal, priority: 'background' },
+        )
+
+        if (!quote.success || !quote.data?.amountOut || !quote.data?.amountIn) throw new Error('Quote failed')
+        applyWatchedQuote(mint, quote.data)
+      } catch (e) {
+        if (isTradingWsAbortError(e)) return
+        applyWatchedQuoteError(mint, e)
+      }
+    },
+    [amountSol, applyWatchedQuote, applyWatchedQuoteError, ensureWs, publicKey, slippageBps, userRateLimitUntilMs],
+  )
+
+  // Quotes several mints with one `quote_batch` round trip per chunk when the server hello advertises it;
+  // otherwise (or if a whole batch fails) one `quote` per mint.
+  const quoteWatchedMints = useCallback(
+    async (mints: string[], signal?: AbortSignal) => {
+      const ws = wsRef.current
+      const maxLegs = ws?.isOpen ? ws.quoteBatchMaxLegs : 0
+      if (!ws || maxLegs <= 0 || mints.length < 2) {
+        for (const mint of mints) {
+          if (signal?.aborted) return
+          await quoteWatchedMint(mint, signal)
+        }
+        return
+      }
+
+      if (Date.now() < userRateLimitUntilMs) return
+      const amountInLamports = toLamports(Number(amountSol))
+      if (amountInLamports <= 0) return
+      const quoteUserPubkey = publicKey?.toBase58() || READONLY_PUBKEY
+
+      for (let i = 0; i < mints.length; i += maxLegs) {
+        if (signal?.aborted) return
+        const chunk = mints.slice(i, i + maxLegs)
+
+        let results: QuoteBatchLegResult[]
+        try {
+          const batch = await ws.quoteBatch(
+            {
               userPubkey: quoteUserPubkey,
               inputMint: SOL_MINT,
-              outputMint: mint,
-              amountIn: amountInLamports.toString(),
               slippageBps: clamp(slippageBps, 0, 50_000),
+              legs: chunk.map((outputMint) => ({ outputMint, amountIn: amountInLamports.toString() })),
             },
-          },
-          (m): m is QuoteResult => m.type === 'quote_result',
-          12_000,
-        )
-
-        if (!quote.success || !quote.data?.amountOut || !quote.data?.amountIn) throw new Error('Quote failed')
-
-        const amountOutBaseUnits = BigInt(quote.data.amountOut)
-        const amountIn = BigInt(quote.data.amountIn)
-        const priceProxyScaled = computePriceProxyScaled(amountIn, amountOutBaseUnits)
-
-        // Best-effort numeric proxy for UI display.
-        const proxyNum =
-          bigintAbs(priceProxyScaled) <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(priceProxyScaled) / Number(PRICE_PROXY_SCALE) : undefined
-
-        setWatched((prev) =>
-          prev.map((x) => {
-            if (x.mint !== mint) return x
-            const baseScaled = x.basePriceProxyScaled ? bigintFromString(x.basePriceProxyScaled) : priceProxyScaled
-
-            // Avoid Number() overflow (Infinity/NaN) for illiquid tokens.
-            // Compute percent growth using bigint math, clamped to a sane range.
-            let growthPct: number | undefined
-            if (baseScaled > 0n) {
-              const delta = priceProxyScaled - baseScaled
-              const pctTimes100 = (delta * 10000n) / baseScaled // percent * 100
-              const maxPctTimes100 = 100_000_000n // 1,000,000.00%
-              const clamped =
-                pctTimes100 > maxPctTimes100 ? maxPctTimes100 : pctTimes100 < -maxPctTimes100 ? -maxPctTimes100 : pctTimes100
-              growthPct = Number(clamped) / 100
-            }
-
-            return {
-              ...x,
-              error: undefined,
-              basePriceProxyScaled: x.basePriceProxyScaled ?? baseScaled.toString(),
-              lastPriceProxyScaled: priceProxyScaled.toString(),
-              // Keep legacy numeric fields best-effort; avoid storing Infinity.
-              basePriceProxy:
-                bigintAbs(baseScaled) <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(baseScaled) / Number(PRICE_PROXY_SCALE) : x.basePriceProxy,
-              lastPriceProxy:
-                bigintAbs(priceProxyScaled) <= BigInt(Number.MAX_SAFE_INTEGER)
-                  ? Number(priceProxyScaled) / Number(PRICE_PROXY_SCALE)
-                  : x.lastPriceProxy,
-              growthPct: typeof growthPct === 'number' && Number.isFinite(growthPct) ? growthPct : x.growthPct ?? 0,
-              lastUpdatedAt: Date.now(),
-            }
-          }),
-        )
-
-        // Mirror quote-proxy updates into Holdings too (Phase 1 requirement).
-        setHoldings((prev) =>
-          prev.map((h) => {
-            if (h.mint !== mint) return h
-            const entryScaled = h.entryPriceProxyScaled ? bigintFromString(h.entryPriceProxyScaled) : priceProxyScaled
-
-            let growthPct: number | undefined
-            if (entryScaled > 0n) {
-              const delta = priceProxyScaled - entryScaled
-              const pctTimes100 = (delta * 10000n) / entryScaled
-              const maxPctTimes100 = 100_000_000n
-              const clamped =
-                pctTimes100 > maxPctTimes100 ? maxPctTimes100 : pctTimes100 < -maxPctTimes100 ? -maxPctTimes100 : pctTimes100
-              growthPct = Number(clamped) / 100
-            }
+            { timeoutMs: 12_000, signal, priority: 'background' },
+          )
+          if (!batch.success || !batch.data) throw new Error('Quote batch failed')
+          results = batch.data.results
+        } catch (e) {
+          if (isTradingWsAbortError(e)) return
+          if (isUserRateLimitedError(e)) {
+            recordTradingApiError(e)
+            bumpUserRateLimitBackoff()
+            return
+          }
+          for (const mint of chunk) {
+            if (signal?.aborted) return
+            await quoteWatchedMint(mint, signal)
+          }
+          continue
+        }
 
-            const entryNum =
-              bigintAbs(entryScaled) <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(entryScaled) / Number(PRICE_PROXY_SCALE) : h.entryPriceProxy
-
-            const changed =
-              h.lastPriceProxyScaled !== priceProxyScaled.toString() ||
-              h.entryPriceProxyScaled !== (h.entryPriceProxyScaled ?? entryScaled.toString()) ||
-              h.proxyGrowthPct !== (typeof growthPct === 'number' && Number.isFinite(growthPct) ? growthPct : h.proxyGrowthPct)
-            if (!changed) return h
-
-            return {
-              ...h,
-              entryPriceProxyScaled: h.entryPriceProxyScaled ?? entryScaled.toString(),
-              lastPriceProxyScaled: priceProxyScaled.toString(),
-              entryPriceProxy: h.entryPriceProxy ?? entryNum,
-              lastPriceProxy: proxyNum ?? h.lastPriceProxy,
-              proxyGrowthPct: typeof growthPct === 'number' && Number.isFinite(growthPct) ? growthPct : h.proxyGrowthPct,
+        const byMint = new Map(results.map((r) => [r.outputMint, r]))
+        for (const mint of chunk) {
+          const leg = byMint.get(mint)
+          try {
+            if (!leg?.success || !leg.data?.amountOut || !leg.data?.amountIn) {
+              throw leg?.error ? new TradingWsError(leg.error.message, leg.error.code) : new Error('Quote failed')
             }
-          }),
-        )
-      } catch (e) {
-        recordTradingApiError(e)
-        if (isUserRateLimitedError(e)) {
-          bumpUserRateLimitBackoff()
-          return
+            applyWatchedQuote(mint, leg.data)
+          } catch (e) {
+            applyWatchedQuoteError(mint, e)
+          }
         }
-        const msg = e instanceof Error ? e.message : 'Quote failed'
-        setWatched((prev) => prev.map((x) => (x.mint === mint ? { ...x, error: msg, lastUpdatedAt: Date.now() } : x)))
       }
     },
-    [amountSol, bumpUserRateLimitBackoff, ensureWs, isUserRateLimitedError, publicKey, recordTradingApiError, slippageBps, userRateLimitUntilMs],
+    [
+      amountSol,
+      applyWatchedQuote,
+      applyWatchedQuoteError,
+      bumpUserRateLimitBackoff,
+      isUserRateLimitedError,
+      publicKey,
+      quoteWatchedMint,
+      recordTradingApiError,
+      slippageBps,
+      userRateLimitUntilMs,
+    ],
   )
 
   const addWatchedToken = useCallback(() => {
@@ -2929,10 +3612,9 @@ function App() {
     // Prime MC/Growth immediately from current feed snapshot (if present).
     primeWatchedFromFeed(mintStr)
 
-    // Prime Growth immediately. We retry because the state update may land after the first tick.
-    window.setTimeout(() => void quoteWatchedMint(mintStr), 150)
-    window.setTimeout(() => void quoteWatchedMint(mintStr), 650)
-    window.setTimeout(() => void quoteWatchedMint(mintStr), 1500)
+    // Prime Growth once; the quote scheduler polls it from here on. The row is queued above, so the
+    // quote lands after it.
+    void quoteWatchedMint(mintStr)
   }, [gates.maxWatchedTokens, openTierSelection, primeWatchedFromFeed, quoteWatchedMint, tier, watchMintInput])
 
   const watchMint = useCallback(
@@ -2980,10 +3662,9 @@ function App() {
       // Prime MC/Growth immediately from current feed snapshot (if present).
       primeWatchedFromFeed(m)
 
-      // Prime Growth immediately. We retry because the state update may land after the first tick.
-      window.setTimeout(() => void quoteWatchedMint(m), 150)
-      window.setTimeout(() => void quoteWatchedMint(m), 650)
-      window.setTimeout(() => void quoteWatchedMint(m), 1500)
+      // Prime Growth once; the quote scheduler polls it from here on. The row is queued above, so the
+      // quote lands after it.
+      void quoteWatchedMint(m)
     },
     [gates.maxWatchedTokens, openTierSelection, primeWatchedFromFeed, quoteWatchedMint, tier, watched.length],
   )
@@ -3198,18 +3879,33 @@ function App() {
     delete candleHistoryRef.current[mint]
   }, [])
 
-  const pollQuotes = useCallback(async () => {
-    if (Date.now() < userRateLimitUntilMs) return
-    const watchedMints = watched.slice(0, gates.maxWatchedTokens).map((x) => x.mint)
-    const holdingMints = holdings.slice(0, 12).map((h) => h.mint)
-    const mints = Array.from(new Set([...watchedMints, ...holdingMints]))
-    if (!mints.length) return
+  // One scheduler tick: quotes the most overdue mints and returns the delay until the next tick.
+  const pollQuotes = useCallback(async (signal?: AbortSignal): Promise<number> => {
+    const ws = wsRef.current
+    const stats = ws?.getStats()
+    const batchSize = ws?.isOpen ? ws.quoteBatchMaxLegs : 0
+    const rtt = batchSize > 0 ? stats?.rtt.quote_batch ?? stats?.rtt.quote : stats?.rtt.quote
+    const scheduleOpts = {
+      basePollMs: gates.quotePollMs,
+      rttP50Ms: rtt?.p50Ms,
+      rttP95Ms: rtt?.p95Ms,
+      batchSize: Math.max(1, batchSize),
+      rateLimitRps: stats?.rateLimit?.enabled ? stats.rateLimit.rps : undefined,
+    }
+    const delayMs = quoteScheduler.tickDelayMs(scheduleOpts)
+    if (Date.now() < userRateLimitUntilMs) return delayMs
+
+    // Held first so the `held` signal wins when a mint is also watched. The popout keeps its own
+    // price feed, so it only boosts mints that are already polled here.
+    const candidates: QuoteCandidate[] = [
+      ...holdings.slice(0, 12).map((h) => ({ mint: h.mint, held: true })),
+      ...watched.slice(0, gates.maxWatchedTokens).map((x) => ({ mint: x.mint })),
+    ].map((c) => (c.mint === activePopoutMint ? { ...c, popout: true } : c))
 
     // Sequential polling keeps traffic predictable.
-    for (const mint of mints) {
-      await quoteWatchedMint(mint)
-    }
-  }, [gates.maxWatchedTokens, holdings, quoteWatchedMint, watched, userRateLimitUntilMs])
+    await quoteWatchedMints(quoteScheduler.next(candidates, scheduleOpts), signal)
+    return delayMs
+  }, [activePopoutMint, gates.maxWatchedTokens, gates.quotePollMs, holdings, quoteScheduler, quoteWatchedMints, watched, userRateLimitUntilMs])
 
   useEffect(() => {
     // Count unique trigger hits per session.
@@ -3223,12 +3919,27 @@ function App() {
     }
   }, [growthTriggerPct, watched])
 
+  // pollQuotes is recreated after every quote (watched changes), so the polling loop reads it through a ref;
+  // the abort signal is then only tripped when polling itself stops (unmount / cadence change).
+  const pollQuotesRef = useRef(pollQuotes)
   useEffect(() => {
-    const id = setInterval(() => {
-      void pollQuotes()
-    }, gates.quotePollMs)
-    return () => clearInterval(id)
-  }, [gates.quotePollMs, pollQuotes])
+    pollQuotesRef.current = pollQuotes
+  }, [pollQuotes])
+
+  useEffect(() => {
+    const controller = new AbortController()
+    let timer: number | null = null
+    const tick = async () => {
+      const delayMs = await pollQuotesRef.current(controller.signal)
+      if (controller.signal.aborted) return
+      timer = window.setTimeout(() => void tick(), delayMs)
+    }
+    timer = window.setTimeout(() => void tick(), gates.quotePollMs)
+    return () => {
+      if (timer) window.clearTimeout(timer)
+      controller.abort()
+    }
+  }, [gates.quotePollMs])
 
   // Detect new tokens and critical signals
   useEffect(() => {
@@ -3263,6 +3974,22 @@ function App() {
     setSnipePopupVisible(true)
   }, [])
 
+  // Trading API requests started from the snipe popup (buy/sell) share one controller per popup
+  // session, so closing the popup drops them immediately instead of letting stale results land in
+  // state. Requests started while the popup is closed get no signal.
+  const snipePopupAbortRef = useRef<AbortController | null>(null)
+  useEffect(() => {
+    if (!snipePopupVisible) return
+    const controller = new AbortController()
+    snipePopupAbortRef.current = controller
+    return () => {
+      controller.abort()
+      if (snipePopupAbortRef.current === controller) snipePopupAbortRef.current = null
+    }
+  }, [snipePopupVisible])
+
+  const snipePopupSignal = useCallback(() => snipePopupAbortRef.current?.signal, [])
+
   const closeSnipePopup = useCallback(() => {
     setSnipePopupVisible(false)
   }, [])
@@ -3326,29 +4053,9 @@ function App() {
       // Only show this prompt when the user explicitly presses Snipe.
       setStep('connecting')
       if (walletSigAvailable) setSnipePrompt('Signature needed in wallet')
-
-      const runWs = async <T,>(fn: (ws: TradingWs) => Promise<T>): Promise<T> => {
-        let ws = await ensureWs()
-        try {
-          return await fn(ws)
-        } catch (e) {
-          const msg = e instanceof Error ? e.message : String(e || '')
-          const retryable = msg === 'WebSocket not connected' || msg === 'WebSocket connection error'
-          if (!retryable) throw e
-
-          // One-time reconnect+retry: handles dropped sockets / initial connect race.
-          try {
-            wsRef.current?.close()
-          } catch {
-            // ignore
-          }
-          wsRef.current = null
-          setWsStatus('disconnected')
-          ws = await ensureWs()
-          return await fn(ws)
-        }
-      }
-
+      // TradingWs reconnects + replays idempotent requests itself; no retry wrapper needed here.
+      const ws = await ensureWs()
+      const signal = snipePopupSignal()
       setSnipePrompt('')
 
       const ownerPk = sessionKp ? publicKey : null
@@ -3358,20 +4065,15 @@ function App() {
         : null
 
       setStep('quoting')
-      const quote = await runWs((ws) =>
-        ws.request<QuoteResult>(
-          {
-            type: 'quote',
-            params: {
-              userPubkey: traderPk.toBase58(),
-              inputMint: SOL_MINT,
-              outputMint: mint.toBase58(),
-              amountIn: lamports.toString(),
-              slippageBps: clamp(slippageBps, 0, 50_000),
-            },
-          },
-          (m): m is QuoteResult => m.type === 'quote_result',
-        ),
+      const quote = await ws.quote(
+        {
+          userPubkey: traderPk.toBase58(),
+          inputMint: SOL_MINT,
+          outputMint: mint.toBase58(),
+          amountIn: lamports.toString(),
+          slippageBps: clamp(slippageBps, 0, 50_000),
+        },
+        { signal },
       )
 
       if (!quote.success || !quote.data?.route) throw new Error('Quote failed')
@@ -3397,20 +4099,15 @@ function App() {
       const canUseServerOrderPipeline = Boolean(!sessionKp && !botKp && publicKey && traderPk && traderPk.equals(publicKey))
       if (canUseServerOrderPipeline) {
         try {
-          const created = await runWs((ws) =>
-            ws.request<CreateOrderResult>(
-              {
-                type: 'create_order',
-                params: {
-                  side: 'buy',
-                  mint: mint.toBase58(),
-                  idempotencyKey: randomIdempotencyKey(),
-                  userPubkey: traderPk.toBase58(),
-                },
-              },
-              (m): m is CreateOrderResult => m.type === 'create_order_result',
-              12_000,
-            ),
+          const created = await ws.createOrder(
+            {
+              side: 'buy',
+              mint: mint.toBase58(),
+              idempotencyKey: randomIdempotencyKey(),
+              userPubkey: traderPk.toBase58(),
+            },
+            // idempotencyKey makes a replay after reconnect safe.
+            { timeoutMs: 12_000, replay: true, signal },
           )
           if (created.success && created.data?.orderId) {
             orderId = created.data.orderId
@@ -3421,34 +4118,36 @@ function App() {
       }
 
       setStep('building')
-      const built = await runWs((ws) =>
-        ws.request<BuildSwapTxResult>(
-          {
-            type: 'build_swap_tx',
-            params: {
-              userPubkey: traderPk.toBase58(),
-              quote: {
-                provider: 'jupiter',
-                serializedQuote,
-              },
-              ...(orderId ? { orderId } : {}),
-              ...(sessionKp
-                ? {
-                    wrapAndUnwrapSol: false,
-                    asLegacyTransaction: true,
-                    destinationTokenAccount: ownerOutAta!.toBase58(),
-                  }
-                : {}),
-            },
+      const built = await ws.buildSwapTx(
+        {
+          userPubkey: traderPk.toBase58(),
+          quote: {
+            provider: 'jupiter',
+            serializedQuote,
           },
-          (m): m is BuildSwapTxResult => m.type === 'build_swap_tx_result',
-        ),
+          ...(orderId ? { orderId } : {}),
+          ...(sessionKp
+            ? {
+                wrapAndUnwrapSol: false,
+                asLegacyTransaction: true,
+                destinationTokenAccount: ownerOutAta!.toBase58(),
+              }
+            : {}),
+        },
+        // Building an unsigned tx has no side effects, so it can be replayed.
+        { replay: true, signal },
       )
 
       if (!built.success || !built.data) throw new Error('Failed to build transaction')
       const txBase64 = built.data.transactionBase64 || built.data.swapTransaction
       if (!txBase64) throw new Error('build_swap_tx_result missing transactionBase64')
 
+      // Popup closed while building: drop the stale tx instead of prompting the wallet.
+      if (signal?.aborted) {
+        setStep('idle')
+        return
+      }
+
       setStep('signing')
       const unsignedTx = deserializeTx(txBase64)
 
@@ -3464,11 +4163,7 @@ function App() {
         pushDebugEvent({ area: 'trade', level: 'info', message: 'Tx submitted (bg confirm)', detail: signature })
         void (async () => {
           try {
-            const status = await confirmSignatureWithFallback(connection, signature, {
-              commitment: 'confirmed',
-              timeoutMs: 30_000,
-              pollIntervalMs: 1000,
-            })
+            const status = await confirmTradeSignature(signature, { timeoutMs: 30_000, pollIntervalMs: 1000 })
 
             if (status === 'not_found') {
               setBgTx((prev) =>
@@ -3571,6 +4266,7 @@ function App() {
         combined.recentBlockhash = blockhash
 
         const signed = signTxWithKeypair(combined, sessionKp)
+        walletActivityRef.current?.claim(txSignature(signed) ?? '')
         setStep('submitting')
         const signature = await connection.sendRawTransaction(signed.serialize(), { skipPreflight: false, maxRetries: 3 })
         setTxSig(signature)
@@ -3582,6 +4278,7 @@ function App() {
       }
 
       const signedTx = botKp ? signTxWithKeypair(unsignedTx, botKp) : await signTransaction!(unsignedTx)
+      walletActivityRef.current?.claim(txSignature(signedTx) ?? '')
 
       setStep('submitting')
       let signature = ''
@@ -3590,18 +4287,12 @@ function App() {
       if (orderId) {
         try {
           const signedTxBase64 = signedTx.serialize().toString('base64')
-          const submitted = await runWs((ws) =>
-            ws.request<SubmitSignedTxResult>(
-              {
-                type: 'submit_signed_tx',
-                params: {
-                  orderId,
-                  signedTxBase64,
-                },
-              },
-              (m): m is SubmitSignedTxResult => m.type === 'submit_signed_tx_result',
-              20_000,
-            ),
+          const submitted = await ws.submitSignedTx(
+            {
+              orderId,
+              signedTxBase64,
+            },
+            { timeoutMs: 20_000 },
           )
           if (!submitted.success || !submitted.data?.signature) throw new Error('submit_signed_tx failed')
           signature = submitted.data.signature
@@ -3618,6 +4309,12 @@ function App() {
         })
       }
       setTxSig(signature)
+      pushDebugEvent({
+        area: 'trade',
+        level: 'info',
+        message: 'Buy tx sent',
+        detail: [signature, describeTradeWsTimings(ws.getStats())].filter(Boolean).join(' · '),
+      })
 
       // UX: treat signature receipt as immediate success, confirm asynchronously.
       setStep('idle')
@@ -3625,6 +4322,10 @@ function App() {
       void syncPositionsFromBackend('buy_submit')
     } catch (e) {
       setSnipePrompt('')
+      if (isTradingWsAbortError(e)) {
+        setStep('idle')
+        return
+      }
       recordTradingApiError(e)
       if (isUserRateLimitedError(e)) {
         bumpUserRateLimitBackoff()
@@ -3641,6 +4342,7 @@ function App() {
     addHolding,
     amountSol,
     bumpUserRateLimitBackoff,
+    confirmTradeSignature,
     connection,
     connected,
     ensureWs,
@@ -3654,6 +4356,7 @@ function App() {
     signTransaction,
     signMessage,
     slippageBps,
+    snipePopupSignal,
     tier,
     userRateLimitUntilMs,
     useBotWalletForTrades,
@@ -3740,40 +4443,17 @@ function App() {
 
         setSellStep('quoting')
         pushDebugEvent({ area: 'trade', level: 'info', message: 'Sell: quoting', detail: mint })
-        const runWs = async <T,>(fn: (ws: TradingWs) => Promise<T>): Promise<T> => {
-          let ws = await ensureWs()
-          try {
-            return await fn(ws)
-          } catch (e) {
-            const msg = e instanceof Error ? e.message : String(e || '')
-            const retryable = msg === 'WebSocket not connected' || msg === 'WebSocket connection error'
-            if (!retryable) throw e
-            try {
-              wsRef.current?.close()
-            } catch {
-              // ignore
-            }
-            wsRef.current = null
-            setWsStatus('disconnected')
-            ws = await ensureWs()
-            return await fn(ws)
-          }
-        }
-
-        const quote = await runWs((ws) =>
-          ws.request<QuoteResult>(
-            {
-              type: 'quote',
-              params: {
-                userPubkey: traderPk.toBase58(),
-                inputMint: mint,
-                outputMint: SOL_MINT,
-                amountIn: amountIn.toString(),
-                slippageBps: clamp(slippageBps, 0, 50_000),
-              },
-            },
-            (m): m is QuoteResult => m.type === 'quote_result',
-          ),
+        const ws = await ensureWs()
+        const signal = snipePopupSignal()
+        const quote = await ws.quote(
+          {
+            userPubkey: traderPk.toBase58(),
+            inputMint: mint,
+            outputMint: SOL_MINT,
+            amountIn: amountIn.toString(),
+            slippageBps: clamp(slippageBps, 0, 50_000),
+          },
+          { signal },
         )
 
         if (!quote.success || !quote.data?.route) throw new Error('Quote failed')
@@ -3787,20 +4467,15 @@ function App() {
         const canUseServerOrderPipeline = Boolean(!botKp && publicKey && traderPk.equals(publicKey))
         if (canUseServerOrderPipeline) {
           try {
-            const created = await runWs((ws) =>
-              ws.request<CreateOrderResult>(
-                {
-                  type: 'create_order',
-                  params: {
-                    side: 'sell',
-                    mint,
-                    idempotencyKey: randomIdempotencyKey(),
-                    userPubkey: traderPk.toBase58(),
-                  },
-                },
-                (m): m is CreateOrderResult => m.type === 'create_order_result',
-                12_000,
-              ),
+            const created = await ws.createOrder(
+              {
+                side: 'sell',
+                mint,
+                idempotencyKey: randomIdempotencyKey(),
+                userPubkey: traderPk.toBase58(),
+              },
+              // idempotencyKey makes a replay after reconnect safe.
+              { timeoutMs: 12_000, replay: true, signal },
             )
             if (created.success && created.data?.orderId) {
               orderId = created.data.orderId
@@ -3812,27 +4487,29 @@ function App() {
 
         setSellStep('building')
         pushDebugEvent({ area: 'trade', level: 'info', message: 'Sell: building tx', detail: mint })
-        const built = await runWs((ws) =>
-          ws.request<BuildSwapTxResult>(
-            {
-              type: 'build_swap_tx',
-              params: {
-                userPubkey: traderPk.toBase58(),
-                quote: {
-                  provider: 'jupiter',
-                  serializedQuote,
-                },
-                ...(orderId ? { orderId } : {}),
-              },
+        const built = await ws.buildSwapTx(
+          {
+            userPubkey: traderPk.toBase58(),
+            quote: {
+              provider: 'jupiter',
+              serializedQuote,
             },
-            (m): m is BuildSwapTxResult => m.type === 'build_swap_tx_result',
-          ),
+            ...(orderId ? { orderId } : {}),
+          },
+          // Building an unsigned tx has no side effects, so it can be replayed.
+          { replay: true, signal },
         )
 
         if (!built.success || !built.data) throw new Error('Failed to build transaction')
         const txBase64 = built.data.transactionBase64 || built.data.swapTransaction
         if (!txBase64) throw new Error('build_swap_tx_result missing transactionBase64')
 
+        if (signal?.aborted) {
+          setSellStep('idle')
+          setSellMintInFlight('')
+          return
+        }
+
         setSellStep('signing')
         pushDebugEvent({ area: 'trade', level: 'info', message: 'Sell: signing', detail: mint })
         const unsignedTx = deserializeTx(txBase64)
@@ -3844,6 +4521,7 @@ function App() {
           const signed = await signTransaction!(unsignedTx)
           signedTx = signed
         }
+        walletActivityRef.current?.claim(txSignature(signedTx) ?? '')
 
         setSellStep('sending')
         pushDebugEvent({ area: 'trade', level: 'info', message: 'Sell: sending raw tx', detail: mint })
@@ -3852,18 +4530,12 @@ function App() {
         if (orderId) {
           try {
             const signedTxBase64 = signedTx.serialize().toString('base64')
-            const submitted = await runWs((ws) =>
-              ws.request<SubmitSignedTxResult>(
-                {
-                  type: 'submit_signed_tx',
-                  params: {
-                    orderId,
-                    signedTxBase64,
-                  },
-                },
-                (m): m is SubmitSignedTxResult => m.type === 'submit_signed_tx_result',
-                20_000,
-              ),
+            const submitted = await ws.submitSignedTx(
+              {
+                orderId,
+                signedTxBase64,
+              },
+              { timeoutMs: 20_000 },
             )
             if (!submitted.success || !submitted.data?.signature) throw new Error('submit_signed_tx failed')
             sig = submitted.data.signature
@@ -3887,15 +4559,16 @@ function App() {
           color: 'rgba(239,68,68,0.95)',
           text: 'MY SELL',
         })
-        pushDebugEvent({ area: 'trade', level: 'info', message: 'Sell tx sent', detail: sig })
+        pushDebugEvent({
+          area: 'trade',
+          level: 'info',
+          message: 'Sell tx sent',
+          detail: [sig, describeTradeWsTimings(ws.getStats())].filter(Boolean).join(' · '),
+        })
         void syncPositionsFromBackend('sell_submit')
 
         setSellStep('confirming')
-        const status = await confirmSignatureWithFallback(connection, sig, {
-          commitment: 'confirmed',
-          timeoutMs: 60_000,
-          pollIntervalMs: 1000,
-        })
+        const status = await confirmTradeSignature(sig, { timeoutMs: 60_000, pollIntervalMs: 1000 })
 
         if (status === 'not_found') {
           setSellStep('idle')
@@ -3936,6 +4609,11 @@ function App() {
         setSellStep('idle')
         setSellMintInFlight('')
       } catch (e) {
+        if (isTradingWsAbortError(e)) {
+          setSellStep('idle')
+          setSellMintInFlight('')
+          return
+        }
         if (isUserRateLimitedError(e)) {
           bumpUserRateLimitBackoff()
           setSellStep('idle')
@@ -3957,6 +4635,7 @@ function App() {
     [
       activeLiveKeypair,
       bumpUserRateLimitBackoff,
+      confirmTradeSignature,
       connection,
       connected,
       ensureWs,
@@ -3974,6 +4653,7 @@ function App() {
       signTransaction,
       pushPopoutMarker,
       slippageBps,
+      snipePopupSignal,
       tier,
       userRateLimitUntilMs,
       syncPositionsFromBackend,
@@ -4078,6 +4758,52 @@ function App() {
     wsUrl,
   ])
 
+  const stopWsRecording = useCallback(() => {
+    const recording = wsRecorder.stop()
+    downloadWsRecording(recording)
+    pushDebugEvent({
+      area: 'ws',
+      level: recording.truncated ? 'warn' : 'info',
+      message: 'WS session recording saved',
+      detail: `${recording.events.length} events${recording.truncated ? ' (truncated)' : ''}`,
+    })
+  }, [pushDebugEvent, wsRecorder])
+
+  // Replay only affects sockets opened afterwards, so drop the live ones; Connect / reopening the chart starts playback.
+  const loadWsReplay = useCallback(
+    async (file: File) => {
+      try {
+        const recording = parseWsRecording(await file.text())
+        wsReplayerRef.current = new WsReplayer(recording)
+        setWsReplayName(file.name)
+        wsRef.current?.close()
+        setWsStatus('disconnected')
+        dataGatewayRef.current?.destroy()
+        dataGatewayRef.current = null
+        pushDebugEvent({
+          area: 'ws',
+          level: 'warn',
+          message: 'WS replay armed',
+          detail: `${file.name}: ${recording.events.length} events; new connections will replay it`,
+        })
+      } catch (e) {
+        const msg = e instanceof Error ? e.message : 'Failed to load recording'
+        pushDebugEvent({ area: 'ws', level: 'error', message: 'WS replay load failed', detail: msg })
+      }
+    },
+    [pushDebugEvent],
+  )
+
+  const exitWsReplay = useCallback(() => {
+    wsReplayerRef.current = null
+    setWsReplayName('')
+    wsRef.current?.close()
+    setWsStatus('disconnected')
+    dataGatewayRef.current?.destroy()
+    dataGatewayRef.current = null
+    pushDebugEvent({ area: 'ws', level: 'info', message: 'WS replay exited' })
+  }, [pushDebugEvent])
+
   const runSolProbe = useCallback(async () => {
     const started = performance.now()
     try {
@@ -4176,11 +4902,7 @@ function App() {
   const refreshSubscriptionStatus = useCallback(async () => {
     try {
       const ws = await ensureWs()
-      const res = await ws.request<GetSubscriptionStatusResult>(
-        { type: 'get_subscription_status' },
-        (m): m is GetSubscriptionStatusResult => m.type === 'get_subscription_status_result',
-        15_000,
-      )
+      const res = await ws.getSubscriptionStatus({ timeoutMs: 15_000 })
       if (res.success) {
         setSubscriptionStatus(res.data || null)
         // If server indicates an active paid plan, keep the client plan aligned.
@@ -4261,24 +4983,16 @@ function App() {
 
         const ws = await ensureWs()
 
-        const built = await ws.request<BuildSubscriptionTxResult>(
-          { type: 'build_subscription_tx', params: { tier: target, accountJwt } },
-          (m): m is BuildSubscriptionTxResult => m.type === 'build_subscription_tx_result',
-          20_000,
-        )
+        const built = await ws.buildSubscriptionTx({ tier: target, accountJwt }, { timeoutMs: 20_000 })
         if (!built.success || !built.data?.transactionBase64) throw new Error('Failed to build subscription transaction')
 
         const unsignedTx = deserializeTx(built.data.transactionBase64)
         const signed = await signTransaction(unsignedTx)
         const signedTxBase64 = signed.serialize().toString('base64')
 
-        const submitted = await ws.request<SubmitSubscriptionPaymentResult>(
-          {
-            type: 'submit_subscription_payment',
-            params: { attemptId: built.data.attemptId, tier: target, signedTxBase64, accountJwt },
-          },
-          (m): m is SubmitSubscriptionPaymentResult => m.type === 'submit_subscription_payment_result',
-          20_000,
+        const submitted = await ws.submitSubscriptionPayment(
+          { attemptId: built.data.attemptId, tier: target, signedTxBase64, accountJwt },
+          { timeoutMs: 20_000 },
         )
         if (!submitted.success || !submitted.data?.signature) throw new Error('Subscription payment submit failed')
 
@@ -4479,6 +5193,7 @@ function App() {
                       >
                         {rugged ? 'RUGGED' : isHot ? 'HOT' : 'HOLD'}
                       </span>
+                      <RiskBadge risk={riskByMint[h.mint]} />
                     </div>
                     <div className="watchCell watchCellCenter mono" data-label="Buy Age" title={formatTs(h.boughtAt)}>
                       {formatAgeShort(buyAgeMs)}
@@ -4751,6 +5466,7 @@ function App() {
                       <span className={isHot ? 'tokenRowBadge tokenRowBadgeHot' : 'tokenRowBadge tokenRowBadgeTrack'}>
                         {isHot ? 'HOT' : 'TRACK'}
                       </span>
+                      <RiskBadge risk={riskByMint[t.mint]} />
                       {t.error ? (
                         <span
                           className={ruggedLabel ? 'tokenRowBadge tokenRowBadgeRugged' : 'tokenRowBadge tokenRowBadgeWarm'}
@@ -4823,6 +5539,11 @@ function App() {
                       data-label="Growth"
                     >
                       {Number.isFinite(growth) ? `${Number(growth).toFixed(2)}%` : '—'}
+                      {typeof t.quoteRefreshMs === 'number' ? (
+                        <span className="watchRefreshRate" title="Effective quote refresh interval (priority polling)">
+                          ↻ {(t.quoteRefreshMs / 1000).toFixed(1)}s
+                        </span>
+                      ) : null}
                     </div>
                     <div className="watchActions">
                       <button
@@ -5085,17 +5806,18 @@ function App() {
                       {showSignals ? (
                         <>
                         <div className="popoutSignalsRow">
-                          <span className={typeof popoutSignals.top10Pct === 'number' && popoutSignals.top10Pct >= 40 ? 'popoutSignal popoutSignalBad' : 'popoutSignal'}>
+                          <SourceDisagreementBadge disagreements={popoutDisagreements} labels={POPOUT_FIELD_LABELS} />
+                          <span {...popoutSignalProps('top10Pct', typeof popoutSignals.top10Pct === 'number' && popoutSignals.top10Pct >= 40)}>
                             Top10: <span className="mono">{fmtPct(popoutSignals.top10Pct)}</span>
                           </span>
-                          <span className={typeof popoutSignals.devPct === 'number' && popoutSignals.devPct >= 5 ? 'popoutSignal popoutSignalBad' : 'popoutSignal'}>
+                          <span {...popoutSignalProps('devPct', typeof popoutSignals.devPct === 'number' && popoutSignals.devPct >= 5)}>
                             Dev: <span className="mono">{fmtPct(popoutSignals.devPct)}</span>
                           </span>
-                          <span className="popoutSignal">Snipers: <span className="mono">{fmtPct(popoutSignals.sniperPct)}</span></span>
-                          <span className="popoutSignal">Insiders: <span className="mono">{fmtPct(popoutSignals.insiderPct)}</span></span>
-                          <span className="popoutSignal">Curve: <span className="mono">{fmtPct(popoutSignals.curvePct)}</span></span>
+                          <span {...popoutSignalProps('sniperPct')}>Snipers: <span className="mono">{fmtPct(popoutSignals.sniperPct)}{formatMetricTrend(popoutTrends.sniperPct, 'pct')}</span></span>
+                          <span {...popoutSignalProps('insiderPct')}>Insiders: <span className="mono">{fmtPct(popoutSignals.insiderPct)}</span></span>
+                          <span {...popoutSignalProps('curvePct')}>Curve: <span className="mono">{fmtPct(popoutSignals.curvePct)}</span></span>
                           <span
-                            className="popoutSignal"
+                            {...popoutSignalProps('graduated')}
                             style={{
                               color: popoutSignals.graduated
                                 ? 'rgba(34,197,94,0.95)'
@@ -5106,13 +5828,17 @@ function App() {
                           >
                             Status: <span className="mono">{lifecycleLabel}</span>
                           </span>
-                          <span className="popoutSignal">5m Vol: <span className="mono">{fmtUsdShort(popoutSignals.vol5mUsd)}</span></span>
-                          <span className="popoutSignal">5m Tx: <span className="mono">{typeof popoutSignals.tx5m === 'number' && Number.isFinite(popoutSignals.tx5m) ? Math.round(popoutSignals.tx5m).toLocaleString() : '—'}</span></span>
-                          <span className="popoutSignal">Fees: <span className="mono">{typeof popoutSignals.feesUsd === 'number' && Number.isFinite(popoutSignals.feesUsd) ? `$${Math.round(popoutSignals.feesUsd).toLocaleString()}` : '—'}</span></span>
+                          <span {...popoutSignalProps('vol5mUsd')}>5m Vol: <span className="mono">{fmtUsdShort(popoutSignals.vol5mUsd)}</span></span>
+                          <span {...popoutSignalProps('tx5m')}>5m Tx: <span className="mono">{typeof popoutSignals.tx5m === 'number' && Number.isFinite(popoutSignals.tx5m) ? Math.round(popoutSignals.tx5m).toLocaleString() : '—'}</span></span>
+                          <span {...popoutSignalProps('feesUsd')}>Fees: <span className="mono">{typeof popoutSignals.feesUsd === 'number' && Number.isFinite(popoutSignals.feesUsd) ? `$${Math.round(popoutSignals.feesUsd).toLocaleString()}` : '—'}</span></span>
                         </div>
                         </>
                       ) : null}
 
+                      {showLiveCandles ? (
+                        <AlertRulesPanel mint={holdingDrawerMint} settings={alertSettings} onChange={updateAlertSettings} />
+                      ) : null}
+
                       {showLiveCandles ? (
                         <>
                           <div style={{ display: 'flex', justifyContent: 'flex-end', marginTop: 6 }}>
@@ -5140,15 +5866,7 @@ function App() {
                                 opacity: 0.95,
                               }}
                             >
-                              {showSignals ? (
-                                <div className="mono" style={{ marginBottom: 8, opacity: 0.9 }}>
-                                  tokenPrimary: {popoutWsRoomWinners.tokenPrimary || '—'}
-                                  <br />
-                                  tokenStats: {popoutWsRoomWinners.tokenStats || '—'}
-                                  <br />
-                                  poolStats: {popoutWsRoomWinners.poolStats || '—'}
-                                </div>
-                              ) : null}
+                              <RoomStatsTable stats={popoutRoomStats} />
                               <pre className="mono" style={{ margin: 0, whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
                                 {popoutWsDebugText || 'No messages captured yet.'}
                               </pre>
@@ -5157,44 +5875,54 @@ function App() {
                         </>
                       ) : null}
 
-                      <div className="holdingDrawerChart">
-                        {showLiveCandles ? (
-                          popoutCandles.length ? (
-                            <Suspense fallback={<div className="holdingDrawerEmpty">Loading chart…</div>}>
-                              <CandlesChartLazy 
-                                candles={popoutCandles} 
-                                markers={popoutMarkers} 
-                                height={Math.min(Math.max(window.innerHeight * 0.3, 220), 400)}
-                                currentMc={display.mc}
-                                priceToMcRatio={h && display.mc && popoutCandles.length > 0 ? display.mc / popoutCandles[popoutCandles.length - 1].close : undefined}
-                              />
-                            </Suspense>
-                          ) : popoutCandleError ? (
-                            popoutCandleError.includes('Connect wallet') ? (
-                              <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center', gap: '12px', height: '220px', padding: '20px' }}>
-                                <div style={{ fontSize: '18px', fontWeight: '600', color: 'var(--text)', textAlign: 'center' }}>Connect Wallet for Live Candles</div>
-                                <div style={{ fontSize: '13px', color: 'var(--muted)', textAlign: 'center' }}>Click "Connect Wallet" in the header above to enable real-time 1-second candle charts</div>
-                              </div>
+                      <div className="popoutChartRow">
+                        <div className="holdingDrawerChart">
+                          {showLiveCandles ? (
+                            popoutCandles.length ? (
+                              <Suspense fallback={<div className="holdingDrawerEmpty">Loading chart…</div>}>
+                                <CandlesChartLazy 
+                                  candles={popoutCandles} 
+                                  markers={popoutMarkers} 
+                                  height={Math.min(Math.max(window.innerHeight * 0.3, 220), 400)}
+                                  currentMc={display.mc}
+                                  priceToMcRatio={h && display.mc && popoutCandles.length > 0 ? display.mc / popoutCandles[popoutCandles.length - 1].close : undefined}
+                                />
+                              </Suspense>
+                            ) : popoutCandleError ? (
+                              popoutCandleError.includes('Connect wallet') ? (
+                                <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center', gap: '12px', height: '220px', padding: '20px' }}>
+                                  <div style={{ fontSize: '18px', fontWeight: '600', color: 'var(--text)', textAlign: 'center' }}>Connect Wallet for Live Candles</div>
+                                  <div style={{ fontSize: '13px', color: 'var(--muted)', textAlign: 'center' }}>Click "Connect Wallet" in the header above to enable real-time 1-second candle charts</div>
+                                </div>
+                              ) : (
+                                <div className="holdingDrawerEmpty">{popoutCandleError}</div>
+                              )
                             ) : (
-                              <div className="holdingDrawerEmpty">{popoutCandleError}</div>
+                              <div className="holdingDrawerEmpty">Loading live candles…</div>
                             )
+                          ) : points ? (
+                            <svg width="100%" height="160" viewBox="0 0 560 160" preserveAspectRatio="none">
+                              <polyline
+                                points={points}
+                                fill="none"
+                                stroke="rgba(45,226,230,0.9)"
+                                strokeWidth="2"
+                                strokeLinejoin="round"
+                                strokeLinecap="round"
+                              />
+                            </svg>
                           ) : (
-                            <div className="holdingDrawerEmpty">Loading live candles…</div>
-                          )
-                        ) : points ? (
-                          <svg width="100%" height="160" viewBox="0 0 560 160" preserveAspectRatio="none">
-                            <polyline
-                              points={points}
-                              fill="none"
-                              stroke="rgba(45,226,230,0.9)"
-                              strokeWidth="2"
-                              strokeLinejoin="round"
-                              strokeLinecap="round"
-                            />
-                          </svg>
-                        ) : (
-                          <div className="holdingDrawerEmpty">No chart data yet.</div>
-                        )}
+                            <div className="holdingDrawerEmpty">No chart data yet.</div>
+                          )}
+                        </div>
+                        {showLiveCandles ? (
+                          <TradeTape
+                            trades={popoutTapeTrades}
+                            filters={tradeTapeFilters}
+                            onFiltersChange={updateTradeTapeFilters}
+                            unavailable={solanaTrackerWsUrl ? undefined : 'Trade tape needs SolanaTracker.'}
+                          />
+                        ) : null}
                       </div>
 
                       {popoutSolanaTrackerWarning ? (
@@ -5379,18 +6107,19 @@ function App() {
                       {showSignals ? (
                         <>
                         <div className="popoutSignalsRow">
-                          <span className="popoutSignal">Holders: <span className="mono">{typeof popoutSignals.holders === 'number' ? popoutSignals.holders.toLocaleString() : '—'}</span></span>
-                          <span className={typeof popoutSignals.top10Pct === 'number' && popoutSignals.top10Pct >= 40 ? 'popoutSignal popoutSignalBad' : 'popoutSignal'}>
+                          <SourceDisagreementBadge disagreements={popoutDisagreements} labels={POPOUT_FIELD_LABELS} />
+                          <span {...popoutSignalProps('holders')}>Holders: <span className="mono">{typeof popoutSignals.holders === 'number' ? popoutSignals.holders.toLocaleString() : '—'}{formatMetricTrend(popoutTrends.holders, 'count')}</span></span>
+                          <span {...popoutSignalProps('top10Pct', typeof popoutSignals.top10Pct === 'number' && popoutSignals.top10Pct >= 40)}>
                             Top10: <span className="mono">{fmtPct(popoutSignals.top10Pct)}</span>
                           </span>
-                          <span className={typeof popoutSignals.devPct === 'number' && popoutSignals.devPct >= 5 ? 'popoutSignal popoutSignalBad' : 'popoutSignal'}>
+                          <span {...popoutSignalProps('devPct', typeof popoutSignals.devPct === 'number' && popoutSignals.devPct >= 5)}>
                             Dev: <span className="mono">{fmtPct(popoutSignals.devPct)}</span>
                           </span>
-                          <span className="popoutSignal">Snipers: <span className="mono">{fmtPct(popoutSignals.sniperPct)}</span></span>
-                          <span className="popoutSignal">Insiders: <span className="mono">{fmtPct(popoutSignals.insiderPct)}</span></span>
-                          <span className="popoutSignal">Curve: <span className="mono">{fmtPct(popoutSignals.curvePct)}</span></span>
+                          <span {...popoutSignalProps('sniperPct')}>Snipers: <span className="mono">{fmtPct(popoutSignals.sniperPct)}{formatMetricTrend(popoutTrends.sniperPct, 'pct')}</span></span>
+                          <span {...popoutSignalProps('insiderPct')}>Insiders: <span className="mono">{fmtPct(popoutSignals.insiderPct)}</span></span>
+                          <span {...popoutSignalProps('curvePct')}>Curve: <span className="mono">{fmtPct(popoutSignals.curvePct)}</span></span>
                           <span
-                            className="popoutSignal"
+                            {...popoutSignalProps('graduated')}
                             style={{
                               color: popoutSignals.graduated
                                 ? 'rgba(34,197,94,0.95)'
@@ -5401,14 +6130,18 @@ function App() {
                           >
                             Status: <span className="mono">{lifecycleLabel}</span>
                           </span>
-                          <span className="popoutSignal">5m Vol: <span className="mono">{fmtUsdShort(popoutSignals.vol5mUsd)}</span></span>
-                          <span className="popoutSignal">5m Tx: <span className="mono">{typeof popoutSignals.tx5m === 'number' && Number.isFinite(popoutSignals.tx5m) ? Math.round(popoutSignals.tx5m).toLocaleString() : '—'}</span></span>
-                          <span className="popoutSignal">Liq: <span className="mono">{fmtUsdShort(popoutSignals.liquidityUsd)}</span></span>
-                          <span className="popoutSignal">Fees: <span className="mono">{typeof popoutSignals.feesUsd === 'number' && Number.isFinite(popoutSignals.feesUsd) ? `$${Math.round(popoutSignals.feesUsd).toLocaleString()}` : '—'}</span></span>
+                          <span {...popoutSignalProps('vol5mUsd')}>5m Vol: <span className="mono">{fmtUsdShort(popoutSignals.vol5mUsd)}</span></span>
+                          <span {...popoutSignalProps('tx5m')}>5m Tx: <span className="mono">{typeof popoutSignals.tx5m === 'number' && Number.isFinite(popoutSignals.tx5m) ? Math.round(popoutSignals.tx5m).toLocaleString() : '—'}</span></span>
+                          <span {...popoutSignalProps('liquidityUsd')}>Liq: <span className="mono">{fmtUsdShort(popoutSignals.liquidityUsd)}{formatMetricTrend(popoutTrends.liquidityUsd, 'usd')}</span></span>
+                          <span {...popoutSignalProps('feesUsd')}>Fees: <span className="mono">{typeof popoutSignals.feesUsd === 'number' && Number.isFinite(popoutSignals.feesUsd) ? `$${Math.round(popoutSignals.feesUsd).toLocaleString()}` : '—'}</span></span>
                         </div>
                         </>
                       ) : null}
 
+                      {showLiveCandles ? (
+                        <AlertRulesPanel mint={watchDrawerMint} settings={alertSettings} onChange={updateAlertSettings} />
+                      ) : null}
+
                       {showLiveCandles ? (
                         <>
                           <div style={{ display: 'flex', justifyContent: 'flex-end', marginTop: 6 }}>
@@ -5436,15 +6169,7 @@ function App() {
                                 opacity: 0.95,
                               }}
                             >
-                              {showSignals ? (
-                                <div className="mono" style={{ marginBottom: 8, opacity: 0.9 }}>
-                                  tokenPrimary: {popoutWsRoomWinners.tokenPrimary || '—'}
-                                  <br />
-                                  tokenStats: {popoutWsRoomWinners.tokenStats || '—'}
-                                  <br />
-                                  poolStats: {popoutWsRoomWinners.poolStats || '—'}
-                                </div>
-                              ) : null}
+                              <RoomStatsTable stats={popoutRoomStats} />
                               <pre className="mono" style={{ margin: 0, whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
                                 {popoutWsDebugText || 'No messages captured yet.'}
                               </pre>
@@ -5453,44 +6178,54 @@ function App() {
                         </>
                       ) : null}
 
-                      <div className="holdingDrawerChart">
-                        {showLiveCandles ? (
-                          popoutCandles.length ? (
-                            <Suspense fallback={<div className="holdingDrawerEmpty">Loading chart…</div>}>
-                              <CandlesChartLazy 
-                                candles={popoutCandles} 
-                                markers={popoutMarkers} 
-                                height={220}
-                                currentMc={t?.currentMc}
-                                priceToMcRatio={t && t.currentMc && popoutCandles.length > 0 ? t.currentMc / popoutCandles[popoutCandles.length - 1].close : undefined}
-                              />
-                            </Suspense>
-                          ) : (
-                            popoutCandleError && popoutCandleError.includes('Connect wallet') ? (
-                              <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center', gap: '12px', height: '220px', padding: '20px' }}>
-                                <div style={{ fontSize: '18px', fontWeight: '600', color: 'var(--text)', textAlign: 'center' }}>Connect Wallet for Live Candles</div>
-                                <div style={{ fontSize: '13px', color: 'var(--muted)', textAlign: 'center' }}>Return to main window and click "Connect Wallet" in the header to enable real-time candle charts</div>
-                              </div>
+                      <div className="popoutChartRow">
+                        <div className="holdingDrawerChart">
+                          {showLiveCandles ? (
+                            popoutCandles.length ? (
+                              <Suspense fallback={<div className="holdingDrawerEmpty">Loading chart…</div>}>
+                                <CandlesChartLazy 
+                                  candles={popoutCandles} 
+                                  markers={popoutMarkers} 
+                                  height={220}
+                                  currentMc={t?.currentMc}
+                                  priceToMcRatio={t && t.currentMc && popoutCandles.length > 0 ? t.currentMc / popoutCandles[popoutCandles.length - 1].close : undefined}
+                                />
+                              </Suspense>
                             ) : (
-                              <div className="holdingDrawerEmpty">
-                                {popoutCandleError ? popoutCandleError : 'Loading live candles…'}
-                              </div>
+                              popoutCandleError && popoutCandleError.includes('Connect wallet') ? (
+                                <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center', gap: '12px', height: '220px', padding: '20px' }}>
+                                  <div style={{ fontSize: '18px', fontWeight: '600', color: 'var(--text)', textAlign: 'center' }}>Connect Wallet for Live Candles</div>
+                                  <div style={{ fontSize: '13px', color: 'var(--muted)', textAlign: 'center' }}>Return to main window and click "Connect Wallet" in the header to enable real-time candle charts</div>
+                                </div>
+                              ) : (
+                                <div className="holdingDrawerEmpty">
+                                  {popoutCandleError ? popoutCandleError : 'Loading live candles…'}
+                                </div>
+                              )
                             )
-                          )
-                        ) : points ? (
-                          <svg width="100%" height="160" viewBox="0 0 560 160" preserveAspectRatio="none">
-                            <polyline
-                              points={points}
-                              fill="none"
-                              stroke="rgba(45,226,230,0.9)"
-                              strokeWidth="2"
-                              strokeLinejoin="round"
-                              strokeLinecap="round"
-                            />
-                          </svg>
-                        ) : (
-                          <div className="holdingDrawerEmpty">No chart data yet.</div>
-                        )}
+                          ) : points ? (
+                            <svg width="100%" height="160" viewBox="0 0 560 160" preserveAspectRatio="none">
+                              <polyline
+                                points={points}
+                                fill="none"
+                                stroke="rgba(45,226,230,0.9)"
+                                strokeWidth="2"
+                                strokeLinejoin="round"
+                                strokeLinecap="round"
+                              />
+                            </svg>
+                          ) : (
+                            <div className="holdingDrawerEmpty">No chart data yet.</div>
+                          )}
+                        </div>
+                        {showLiveCandles ? (
+                          <TradeTape
+                            trades={popoutTapeTrades}
+                            filters={tradeTapeFilters}
+                            onFiltersChange={updateTradeTapeFilters}
+                            unavailable={solanaTrackerWsUrl ? undefined : 'Trade tape needs SolanaTracker.'}
+                          />
+                        ) : null}
                       </div>
 
                       <div className="holdingDrawerGrid">
@@ -5605,6 +6340,22 @@ function App() {
         </div>
       ) : null}
 
+      {alertToasts.length ? (
+        <div className="alertToastStack" role="status" aria-live="polite">
+          {alertToasts.map((f) => (
+            <div key={`${f.ruleId}-${f.mint}-${f.at}`} className="toast toastWarn">
+              <div className="toastTitle">{f.title}</div>
+              <div className="toastBody mono">{f.body}</div>
+              <div className="toastActions">
+                <button className="toastBtn" type="button" onClick={() => dismissAlertToast(f)}>
+                  Dismiss
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : null}
+
       <header className="topbar">
         <div className="brandBlock" onClick={onBrandEasterEggClick}>
           <div className="brand">dequanSnipe</div>
@@ -5673,6 +6424,18 @@ function App() {
               </button>
             ) : null}
             {Date.now() < userRateLimitUntilMs ? <span className="healthPill warn">Backoff</span> : null}
+            {wsStatus === 'connected' && wsActiveEndpoint ? (
+              <span
+                className={`healthPill ${wsActiveEndpoint === parseTradingEndpoints(wsUrl)[0] ? 'ok' : 'warn'}`}
+                title={
+                  wsActiveEndpoint === parseTradingEndpoints(wsUrl)[0]
+                    ? `Trading API: ${wsActiveEndpoint}`
+                    : `Trading API failed over to a backup endpoint: ${wsActiveEndpoint}`
+                }
+              >
+                API {endpointHost(wsActiveEndpoint)}
+              </span>
+            ) : null}
             {subscriptionStatus?.active && subscriptionStatus?.overdue ? (
               <span className="healthPill warn" title="Subscription payment is overdue">
                 Renew overdue
@@ -5920,6 +6683,8 @@ function App() {
             <div style={{ paddingRight: '4px', position: 'relative' }}>
               <div className="scanning-line" />
 
+              <RiskSettingsPanel settings={riskSettings} onChange={updateRiskSettings} hiddenCount={riskHiddenCount} />
+
               <div className="feedHeaderRow">
                 <div className="feedHeaderCell">Token</div>
                 <div className="feedHeaderCell">Market Cap</div>
@@ -5928,10 +6693,11 @@ function App() {
               </div>
 
               <AnimatePresence mode="popLayout">
-                {feed.slice(0, gates.liveFeedLimit).map((t) => (
+                {riskFilteredFeed.slice(0, gates.liveFeedLimit).map((t) => (
                   <TokenRow
                     key={t.mint}
                     token={t}
+                    risk={riskByMint[t.mint]}
                     nowMs={uiNow}
                     onWatch={watchMint}
                     onSnipe={openSnipePopup}
@@ -6010,22 +6776,44 @@ function App() {
                   <div className="debugCard">
                     <div className="debugCardTitle">Trading API</div>
                     <div className="debugPills">
-                      <span className={`healthPill ${wsStatus === 'connected' ? 'ok' : 'bad'}`}>WS {wsStatus}</span>
+                      <span className={`healthPill ${wsStatus === 'connected' ? 'ok' : wsStatus === 'disconnected' ? 'bad' : 'warn'}`}>WS {wsStatus}</span>
                       <span className={`healthPill ${uiError ? 'warn' : 'ok'}`}>Err {uiError ? 'yes' : 'no'}</span>
                       <span className={`healthPill ${Date.now() < userRateLimitUntilMs ? 'warn' : 'ok'}`}>
                         User RL {Date.now() < userRateLimitUntilMs ? 'active' : 'ok'}
                       </span>
                     </div>
                     <div className="debugKv"><span>WS URL</span><span className="mono">{wsUrl}</span></div>
+                    <div className="debugKv"><span>Active endpoint</span><span className="mono">{wsActiveEndpoint || '—'}</span></div>
+                    {wsDiag.endpoints.length > 1
+                      ? wsDiag.endpoints.map((ep) => (
+                          <div key={ep.url} className="debugKv">
+                            <span>{ep.active ? '▶ ' : ''}{endpointHost(ep.url)}</span>
+                            <span className="mono">
+                              {ep.checkedAt
+                                ? `${ep.healthy ? 'healthy' : ep.error || 'unhealthy'}${typeof ep.latencyMs === 'number' ? ` · ${ep.latencyMs}ms` : ''}`
+                                : 'not probed'}
+                              {ep.authedAt ? ` · authed ${formatTs(ep.authedAt)}` : ''}
+                            </span>
+                          </div>
+                        ))
+                      : null}
                     <div className="debugKv"><span>Last connect</span><span className="mono">{formatTs(lastWsConnectedAt)}</span></div>
                     <div className="debugKv"><span>Last error</span><span className="mono">{formatTs(lastWsErrorAt)}</span></div>
                     <div className="debugKv"><span>Msgs received</span><span className="mono">{wsDiag.messageCount}</span></div>
                     <div className="debugKv"><span>Last msg</span><span className="mono">{formatTs(wsDiag.lastMessageAt)}</span></div>
                     <div className="debugKv"><span>Last msg type</span><span className="mono">{wsDiag.lastMessageType || '—'}</span></div>
+                    <div className="debugKv"><span>Protocol errors</span><span className="mono">{wsDiag.protocolErrorCount}</span></div>
+                    <div className="debugKv"><span>Last protocol error</span><span className="mono">{wsDiag.lastProtocolError || '—'}</span></div>
+                    <div className="debugKv"><span>Ping RTT</span><span className="mono">{formatRtt(wsDiag.rtt.ping)}</span></div>
+                    <div className="debugKv"><span>Quote RTT</span><span className="mono">{formatRtt(wsDiag.rtt.quote)}</span></div>
+                    <div className="debugKv"><span>Build tx RTT</span><span className="mono">{formatRtt(wsDiag.rtt.build_swap_tx)}</span></div>
+                    <div className="debugKv"><span>Submit tx RTT</span><span className="mono">{formatRtt(wsDiag.rtt.submit_signed_tx)}</span></div>
+                    <div className="debugKv"><span>Server clock offset</span><span className="mono">{formatClockOffset(wsDiag)}</span></div>
                     <div className="debugKv"><span>Last API error</span><span className="mono">{formatTs(lastTradingApiErrorAt)}</span></div>
                     <div className="debugKv"><span>Last API code</span><span className="mono">{lastTradingApiErrorCode || '—'}</span></div>
                     <div className="debugKv"><span>Last API msg</span><span className="mono">{lastTradingApiErrorMessage || '—'}</span></div>
                     <div className="debugKv"><span>User backoff until</span><span className="mono">{formatTs(userRateLimitUntilMs)}</span></div>
+                    <div className="debugKv"><span>Client rate limit</span><span className="mono">{formatRateLimiter(wsDiag.rateLimit)}</span></div>
                     {uiError ? (
                       <div className="error" style={{ marginTop: '10px' }} title={uiErrorTitle || undefined}>
                         {uiError}
@@ -6155,6 +6943,14 @@ function App() {
                       <span className={`healthPill ${feed.length ? 'ok' : 'warn'}`}>Items {feed.length}</span>
                     </div>
                     <div className="debugKv"><span>Dash base</span><span className="mono">{dequanwDashBase}</span></div>
+                    <div className="debugKv">
+                      <span>Data Gateway</span>
+                      <span className="mono">
+                        {dataGatewayStatus.state}
+                        {dataGatewayStatus.attempt ? ` (attempt ${dataGatewayStatus.attempt})` : ''}
+                      </span>
+                    </div>
+                    <div className="debugKv"><span>Tab sharing</span><span className="mono">{sharedSocketsRole}</span></div>
                     <div className="debugKv"><span>Last fetch</span><span className="mono">{formatTs(lastFeedFetchedAt)}</span></div>
                     <div className="row" style={{ alignItems: 'center', gap: '10px', marginTop: '10px' }}>
                       <label style={{ display: 'flex', alignItems: 'center', gap: '10px', cursor: 'pointer' }}>
@@ -6247,6 +7043,47 @@ function App() {
                     </div>
                   </div>
 
+                  <div className="debugCard">
+                    <div className="debugCardTitle">WS session record / replay</div>
+                    <div className="debugPills">
+                      <span className={`healthPill ${wsRecording ? 'warn' : 'ok'}`}>{wsRecording ? 'Recording' : 'Not recording'}</span>
+                      <span className={`healthPill ${wsReplayName ? 'warn' : 'ok'}`}>{wsReplayName ? 'Replay' : 'Live'}</span>
+                    </div>
+                    <div className="debugKv"><span>Replay file</span><span className="mono">{wsReplayName || '—'}</span></div>
+                    <div className="ctaRow" style={{ marginTop: '10px' }}>
+                      {wsRecording ? (
+                        <button className="secondary" onClick={stopWsRecording}>
+                          Stop &amp; download
+                        </button>
+                      ) : (
+                        <button className="secondary" onClick={() => wsRecorder.start()} disabled={Boolean(wsReplayName)}>
+                          Start recording
+                        </button>
+                      )}
+                      {wsReplayName ? (
+                        <button className="secondary" onClick={exitWsReplay}>
+                          Exit replay
+                        </button>
+                      ) : null}
+                    </div>
+                    <div className="row" style={{ marginTop: '10px' }}>
+                      <label>Load recording</label>
+                      <input
+                        type="file"
+                        accept="application/json,.json"
+                        onChange={(e) => {
+                          const file = e.target.files?.[0]
+                          e.target.value = ''
+                          if (file) void loadWsReplay(file)
+                        }}
+                      />
+                    </div>
+                    <div className="note">
+                      Records Trading API and Data Gateway frames (Data Gateway only in the tab that leads socket sharing). A loaded
+                      recording replays on the next Connect / chart open.
+                    </div>
+                  </div>
+
                   <div className="debugCard">
                     <div className="debugCardTitle">Timeline</div>
                     <div className="debugPills">
@@ -6307,8 +7144,14 @@ function App() {
                 <div className="debugCard" style={{ marginTop: '12px' }}>
                   <div className="debugCardTitle">Connection Settings</div>
                   <div className="row">
-                    <label>Trading API WS URL</label>
-                    <input value={wsUrl} onChange={(e) => setWsUrl(e.target.value)} spellCheck={false} />
+                    <label>Trading API WS URL(s)</label>
+                    <input
+                      value={wsUrl}
+                      onChange={(e) => setWsUrl(e.target.value)}
+                      spellCheck={false}
+                      placeholder="wss://primary, wss://backup"
+                      title="Comma-separated; later entries are failover endpoints"
+                    />
                   </div>
                   <div className="row">
                     <label>API key (dev only)</label>
@@ -0,0 +1,162 @@
+import { useState } from 'react'
+import {
+  ALERT_BOOLEAN_FIELDS,
+  ALERT_OPS,
+  describeAlertRule,
+  isBooleanAlertField,
+  type AlertField,
+  type AlertOp,
+  type AlertSettings,
+} from '../lib/alertRules'
+import { TOKEN_METRIC_NUMERIC_FIELDS } from '../lib/metricsHistory'
+
+type AlertRulesPanelProps = {
+  /** Token the panel is shown for; new rules default to it. */
+  mint: string
+  settings: AlertSettings
+  onChange: (next: AlertSettings) => void
+}
+
+const OP_LABELS: Record<AlertOp, string> = {
+  above: '≥',
+  below: '≤',
+  rises_pct: 'rises % in',
+  drops_pct: 'drops % in',
+  rises_by: 'rises by in',
+  drops_by: 'drops by in',
+  becomes_true: 'becomes true',
+}
+
+const FIELDS: AlertField[] = [...TOKEN_METRIC_NUMERIC_FIELDS, ...ALERT_BOOLEAN_FIELDS]
+
+const shortPk = (pk: string) => `${pk.slice(0, 4)}…${pk.slice(-4)}`
+
+const newRuleId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`
+
+export function AlertRulesPanel({ mint, settings, onChange }: AlertRulesPanelProps) {
+  const [field, setField] = useState<AlertField>('liquidityUsd')
+  const [op, setOp] = useState<AlertOp>('drops_pct')
+  const [threshold, setThreshold] = useState('30')
+  const [windowMin, setWindowMin] = useState('5')
+  const [allTokens, setAllTokens] = useState(false)
+
+  const booleanField = isBooleanAlertField(field)
+  const ops = ALERT_OPS.filter((o) => (booleanField ? o === 'becomes_true' : o !== 'becomes_true'))
+  const effectiveOp = ops.includes(op) ? op : ops[0]
+  const windowed = effectiveOp !== 'above' && effectiveOp !== 'below' && effectiveOp !== 'becomes_true'
+  const visibleRules = settings.rules.filter((r) => !r.mint || r.mint === mint)
+  // Number('') is 0: an empty box must not save a 0 threshold.
+  const n = threshold.trim() ? Number(threshold) : NaN
+  const thresholdValid = booleanField || Number.isFinite(n)
+
+  const addRule = () => {
+    if (!thresholdValid) return
+    const minutes = Number(windowMin)
+    onChange({
+      ...settings,
+      rules: [
+        ...settings.rules,
+        {
+          id: newRuleId(),
+          mint: allTokens ? undefined : mint,
+          field,
+          op: effectiveOp,
+          threshold: booleanField ? 0 : n,
+          windowMs: windowed && Number.isFinite(minutes) && minutes > 0 ? minutes * 60_000 : undefined,
+          enabled: true,
+        },
+      ],
+    })
+  }
+
+  const setNotify = async (enabled: boolean) => {
+    if (enabled && typeof Notification !== 'undefined' && Notification.permission === 'default') {
+      try {
+        await Notification.requestPermission()
+      } catch {
+        // ignore
+      }
+    }
+    onChange({ ...settings, notify: enabled })
+  }
+
+  return (
+    <div className="alertRules">
+      <div className="alertRulesHead">
+        <span>Alerts</span>
+        <label>
+          <input type="checkbox" checked={settings.sound} onChange={(e) => onChange({ ...settings, sound: e.target.checked })} />
+          Sound
+        </label>
+        <label>
+          <input type="checkbox" checked={settings.notify} onChange={(e) => void setNotify(e.target.checked)} />
+          Browser
+        </label>
+      </div>
+
+      {visibleRules.length ? (
+        visibleRules.map((r) => (
+          <div key={r.id} className={r.enabled ? 'alertRuleItem' : 'alertRuleItem alertRuleItemOff'}>
+            <input
+              type="checkbox"
+              checked={r.enabled}
+              title={r.enabled ? 'Disable' : 'Enable'}
+              onChange={(e) =>
+                onChange({ ...settings, rules: settings.rules.map((x) => (x.id === r.id ? { ...x, enabled: e.target.checked } : x)) })
+              }
+            />
+            <span className="mono">{describeAlertRule(r)}</span>
+            <span className="alertRuleScope">{r.mint ? shortPk(r.mint) : 'all tokens'}</span>
+            <button
+              type="button"
+              className="ghost"
+              onClick={() => onChange({ ...settings, rules: settings.rules.filter((x) => x.id !== r.id) })}
+            >
+              ×
+            </button>
+          </div>
+        ))
+      ) : (
+        <div className="alertRulesEmpty">No alerts for this token.</div>
+      )}
+
+      <div className="alertRuleForm">
+        <select value={field} onChange={(e) => setField(e.target.value as AlertField)}>
+          {FIELDS.map((f) => (
+            <option key={f} value={f}>
+              {f}
+            </option>
+          ))}
+        </select>
+        <select value={effectiveOp} onChange={(e) => setOp(e.target.value as AlertOp)}>
+          {ops.map((o) => (
+            <option key={o} value={o}>
+              {OP_LABELS[o]}
+            </option>
+          ))}
+        </select>
+        {booleanField ? null : (
+          <input
+            className="mono"
+            value={threshold}
+            onChange={(e) => setThreshold(e.target.value)}
+            inputMode="decimal"
+            aria-label="Threshold"
+            aria-invalid={!thresholdValid}
+            title={thresholdValid ? undefined : 'Enter a threshold'}
+          />
+        )}
+        {windowed ? (
+          <input className="mono" value={windowMin} onChange={(e) => setWindowMin(e.target.value)} inputMode="numeric" aria-label="Window (minutes)" title="Window (minutes)" />
+        ) : null}
+        <label>
+          <input type="checkbox" checked={allTokens} onChange={(e) => setAllTokens(e.target.checked)} />
+          All tokens
+        </label>
+        <button type="button" className="secondary" onClick={addRule} disabled={!thresholdValid}>
+          Add
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,15 @@
+import { describeRiskScore, type TokenRiskScore } from '../lib/riskScore'
+
+type RiskBadgeProps = {
+  risk: TokenRiskScore | undefined
+}
+
+/** Composite risk score pill; the tooltip carries the per-factor breakdown. */
+export function RiskBadge({ risk }: RiskBadgeProps) {
+  if (!risk) return null
+  return (
+    <span className={`riskBadge riskBadge-${risk.level}`} title={describeRiskScore(risk)}>
+      R{risk.score}
+    </span>
+  )
+}
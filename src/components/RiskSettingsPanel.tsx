@@ -0,0 +1,56 @@
+import { DEFAULT_RISK_WEIGHTS, RISK_FACTORS, RISK_FACTOR_LABELS, type RiskSettings } from '../lib/riskScore'
+
+type RiskSettingsPanelProps = {
+  settings: RiskSettings
+  onChange: (next: RiskSettings) => void
+  /** Feed tokens currently hidden by the max-score filter. */
+  hiddenCount: number
+}
+
+const FEED_MAX_OPTIONS = [null, 80, 60, 35] as const
+
+export function RiskSettingsPanel({ settings, onChange, hiddenCount }: RiskSettingsPanelProps) {
+  return (
+    <div className="riskSettings">
+      <label className="riskSettingsFilter">
+        <span>Hide risk ≥</span>
+        <select
+          value={settings.feedMaxScore ?? ''}
+          onChange={(e) => onChange({ ...settings, feedMaxScore: e.target.value ? Number(e.target.value) : null })}
+        >
+          {FEED_MAX_OPTIONS.map((v) => (
+            <option key={v ?? 'off'} value={v ?? ''}>
+              {v ?? 'off'}
+            </option>
+          ))}
+        </select>
+        {hiddenCount ? <span className="riskSettingsHidden">{hiddenCount} hidden</span> : null}
+      </label>
+
+      <details className="riskSettingsWeights">
+        <summary>Risk weights</summary>
+        {RISK_FACTORS.map((factor) => (
+          <label key={factor} title={`Weight for ${RISK_FACTOR_LABELS[factor]} (0 ignores it)`}>
+            <span>{RISK_FACTOR_LABELS[factor]}</span>
+            <input
+              className="mono"
+              type="number"
+              min={0}
+              max={10}
+              step={1}
+              value={settings.weights[factor]}
+              onChange={(e) => {
+                const n = Number(e.target.value)
+                if (!Number.isFinite(n) || n < 0) return
+                onChange({ ...settings, weights: { ...settings.weights, [factor]: n } })
+              }}
+            />
+          </label>
+        ))}
+        <button type="button" className="ghost" onClick={() => onChange({ ...settings, weights: DEFAULT_RISK_WEIGHTS })}>
+          Reset
+        </button>
+      </details>
+    </div>
+  )
+}
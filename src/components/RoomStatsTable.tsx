@@ -0,0 +1,44 @@
+import type { SolanaTrackerRoomStats } from '../lib/solanaTrackerWs'
+
+type RoomStatsTableProps = {
+  stats: SolanaTrackerRoomStats[]
+}
+
+const secondsAgo = (ms: number | undefined) => (typeof ms === 'number' ? `${Math.round(ms / 1000)}s` : '—')
+
+/** SolanaTracker room health for the popout WS debug panel. */
+export function RoomStatsTable({ stats }: RoomStatsTableProps) {
+  if (!stats.length) return <div className="roomStatsEmpty">No SolanaTracker rooms joined.</div>
+  return (
+    <table className="roomStats mono">
+      <thead>
+        <tr>
+          <th>Room</th>
+          <th>Join</th>
+          <th>msg/s</th>
+          <th>Msgs</th>
+          <th>Silent</th>
+          <th>Err</th>
+          <th>Rejoins</th>
+        </tr>
+      </thead>
+      <tbody>
+        {stats.map((s) => (
+          <tr key={s.room}>
+            <td title={s.room}>{s.room}</td>
+            <td className={s.acked ? 'roomStatsOk' : 'roomStatsWarn'}>
+              {s.joinSentAt === undefined ? 'closed' : s.acked ? 'acked' : 'pending'}
+            </td>
+            <td>{s.ratePerSec.toFixed(2)}</td>
+            <td>{s.messages}</td>
+            <td>{secondsAgo(s.silentMs)}</td>
+            <td className={s.errors ? 'roomStatsWarn' : undefined} title={s.lastError}>
+              {s.errors}
+            </td>
+            <td>{s.rejoins}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
@@ -0,0 +1,21 @@
+import type { TokenMetricDisagreement, TokenMetricField } from '../lib/dataGatewayWs'
+
+type SourceDisagreementBadgeProps = {
+  disagreements: TokenMetricDisagreement[]
+  /** Short field names for the badge text; the tooltip uses the raw field names. */
+  labels: Partial<Record<TokenMetricField, string>>
+}
+
+/** Popout signals pill listing fields whose sources disagree; the tooltip carries each source's reading. */
+export function SourceDisagreementBadge({ disagreements, labels }: SourceDisagreementBadgeProps) {
+  if (!disagreements.length) return null
+  return (
+    <span
+      className="popoutSignal popoutSignalBad"
+      title={disagreements.map((d) => `${d.field}: ${d.readings.map((r) => `${r.source} ${String(r.value)}`).join(' vs ')}`).join('\n')}
+    >
+      ⚠ Sources disagree:{' '}
+      <span className="mono">{disagreements.map((d) => `${labels[d.field] ?? d.field} ±${Math.round(d.spreadPct)}%`).join(', ')}</span>
+    </span>
+  )
+}
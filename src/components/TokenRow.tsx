@@ -1,6 +1,8 @@
 import React, { useRef, useEffect } from 'react'
 import { motion } from 'framer-motion'
 import { isTokenRugged } from '../lib/rug'
+import type { TokenRiskScore } from '../lib/riskScore'
+import { RiskBadge } from './RiskBadge'
 
 interface TokenRowProps {
   token: {
@@ -20,6 +22,8 @@ interface TokenRowProps {
     liquidityRemovedReason?: string
     error?: string
   }
+  /** Composite risk score, when the Data Gateway has metrics for this token. */
+  risk?: TokenRiskScore
   onWatch: (mint: string) => void
   onSnipe: (mint: string) => void
   disabled: boolean
@@ -39,7 +43,7 @@ const formatAge = (ms: number) => {
   return `${hr}h ${remMin}m`
 }
 
-export const TokenRow: React.FC<TokenRowProps> = ({ token, onWatch, onSnipe, disabled, nowMs }) => {
+export const TokenRow: React.FC<TokenRowProps> = ({ token, risk, onWatch, onSnipe, disabled, nowMs }) => {
   const hasGrowth = typeof token.mcGrowthPct === 'number' && Number.isFinite(token.mcGrowthPct)
   const growth = hasGrowth ? (token.mcGrowthPct as number) : 0
   const prevGrowthRef = useRef(growth)
@@ -213,6 +217,7 @@ export const TokenRow: React.FC<TokenRowProps> = ({ token, onWatch, onSnipe, dis
             {!hasGrowth ? '—' : `${growth > 0 ? '+' : ''}${growth.toFixed(2)}%`}
           </div>
           <span className={`tokenRowBadge ${badgeClass}`}>{badgeLabel}</span>
+          <RiskBadge risk={risk} />
         </div>
         <div className="tokenRowSub">{token.startedAt ? `Age ${formatAge(Math.max(0, nowMs - token.startedAt))}` : 'Age —'}</div>
       </div>
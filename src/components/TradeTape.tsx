@@ -0,0 +1,95 @@
+import { useMemo, useState } from 'react'
+import { filterTradeTape, formatTapeAmount, type TapeTrade, type TradeTapeFilters } from '../lib/tradeTape'
+
+type TradeTapeProps = {
+  trades: TapeTrade[]
+  filters: TradeTapeFilters
+  onFiltersChange: (next: TradeTapeFilters) => void
+  /** Shown instead of the list when there is no stream (e.g. SolanaTracker not configured). */
+  unavailable?: string
+}
+
+const MIN_SOL_OPTIONS = [0, 0.1, 0.5, 1, 5] as const
+
+const shortPk = (pk: string) => `${pk.slice(0, 4)}…${pk.slice(-4)}`
+
+const clock = (ms: number) => new Date(ms).toLocaleTimeString([], { hour12: false })
+
+export function TradeTape({ trades, filters, onFiltersChange, unavailable }: TradeTapeProps) {
+  const [copiedWallet, setCopiedWallet] = useState('')
+  const visible = useMemo(() => filterTradeTape(trades, filters), [filters, trades])
+
+  return (
+    <div className="tradeTape">
+      <div className="tradeTapeFilters">
+        <select
+          value={filters.side}
+          onChange={(e) => onFiltersChange({ ...filters, side: e.target.value as TradeTapeFilters['side'] })}
+          title="Show buys, sells or both"
+        >
+          <option value="all">All</option>
+          <option value="buy">Buys</option>
+          <option value="sell">Sells</option>
+        </select>
+        <select
+          value={filters.minSol}
+          onChange={(e) => onFiltersChange({ ...filters, minSol: Number(e.target.value) })}
+          title="Minimum swap size"
+        >
+          {MIN_SOL_OPTIONS.map((v) => (
+            <option key={v} value={v}>
+              {v ? `≥ ${v} SOL` : 'Any size'}
+            </option>
+          ))}
+        </select>
+        <label title="Hide wallets seen sniping launches">
+          <input
+            type="checkbox"
+            checked={filters.hideSnipers}
+            onChange={(e) => onFiltersChange({ ...filters, hideSnipers: e.target.checked })}
+          />
+          <span>Hide snipers</span>
+        </label>
+      </div>
+
+      <div className="tradeTapeList">
+        {unavailable ? (
+          <div className="tradeTapeEmpty">{unavailable}</div>
+        ) : !visible.length ? (
+          <div className="tradeTapeEmpty">{trades.length ? 'No trades match the filters.' : 'Waiting for trades…'}</div>
+        ) : (
+          visible.map((t) => (
+            <div
+              key={`${t.signature}|${t.wallet}|${t.side}`}
+              className={`tradeTapeRow tradeTapeRow-${t.side}${t.ours ? ' tradeTapeRowOurs' : ''}`}
+              title={t.signature}
+            >
+              <span className="tradeTapeSide">{t.side === 'buy' ? 'B' : 'S'}</span>
+              <span className="tradeTapeSol mono">{typeof t.volumeSol === 'number' ? t.volumeSol.toFixed(3) : '—'}</span>
+              <span className="tradeTapeAmount mono">{formatTapeAmount(t.amount)}</span>
+              <button
+                type="button"
+                className="tradeTapeWallet mono"
+                title={`${t.wallet} (click to copy)`}
+                onClick={async () => {
+                  try {
+                    await navigator.clipboard.writeText(t.wallet)
+                    setCopiedWallet(t.wallet)
+                    setTimeout(() => setCopiedWallet(''), 2000)
+                  } catch {
+                    // ignore
+                  }
+                }}
+              >
+                {copiedWallet === t.wallet ? 'copied' : t.ours ? 'you' : shortPk(t.wallet)}
+                {t.dev ? <span className="tradeTapeDev" title="Token creator">dev</span> : null}
+                {t.sniper ? <span className="tradeTapeSniper" title="Known sniper">🎯</span> : null}
+              </button>
+              <span className="tradeTapeTime mono">{clock(t.time)}</span>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,269 @@
+/**
+ * Client-side alert rules over Data Gateway `token_metrics` updates ("liquidity dropped 30% in
+ * 5m", "devPct went to 0", "graduated became true").
+ *
+ * Rules are edge-triggered per mint: a rule fires when its condition turns true, re-arms once it
+ * turns false again, and never fires more often than its cooldown. Window rules read the
+ * gateway's metrics history, so they only see what arrived since the mint was subscribed.
+ */
+
+import type { TokenMetricsMessage } from './dataGatewayWs'
+import { TOKEN_METRIC_NUMERIC_FIELDS, type TokenMetricNumericField } from './metricsHistory'
+
+export const ALERT_BOOLEAN_FIELDS = ['graduating', 'graduated'] as const
+
+export type AlertBooleanField = (typeof ALERT_BOOLEAN_FIELDS)[number]
+export type AlertField = TokenMetricNumericField | AlertBooleanField
+
+export type AlertOp =
+  /** value >= threshold */
+  | 'above'
+  /** value <= threshold */
+  | 'below'
+  /** rose by at least `threshold` percent within `windowMs` */
+  | 'rises_pct'
+  /** fell by at least `threshold` percent within `windowMs` */
+  | 'drops_pct'
+  /** rose by at least `threshold` (absolute) within `windowMs` */
+  | 'rises_by'
+  /** fell by at least `threshold` (absolute) within `windowMs` */
+  | 'drops_by'
+  /** boolean field flipped from false to true */
+  | 'becomes_true'
+
+export const ALERT_OPS: AlertOp[] = ['above', 'below', 'rises_pct', 'drops_pct', 'rises_by', 'drops_by', 'becomes_true']
+
+export type AlertRule = {
+  id: string
+  /** Only this mint; omitted means every watched, held or charted mint. */
+  mint?: string
+  field: AlertField
+  op: AlertOp
+  threshold: number
+  /** Lookback for the delta ops. Default: 5 minutes. */
+  windowMs?: number
+  /** Minimum time between two firings for the same mint. Default: 60s. */
+  cooldownMs?: number
+  enabled: boolean
+}
+
+export type AlertSettings = {
+  rules: AlertRule[]
+  sound: boolean
+  notify: boolean
+}
+
+export type AlertFiring = {
+  ruleId: string
+  mint: string
+  at: number
+  title: string
+  body: string
+}
+
+/** Where window rules read deltas from (DataGatewayWs implements this). */
+export type AlertHistorySource = {
+  change(mint: string, field: TokenMetricNumericField, windowMs: number, now?: number): { delta: number; pct?: number } | undefined
+}
+
+const DEFAULT_WINDOW_MS = 5 * 60_000
+const DEFAULT_COOLDOWN_MS = 60_000
+
+export const DEFAULT_ALERT_SETTINGS: AlertSettings = { rules: [], sound: true, notify: false }
+
+export function isBooleanAlertField(field: AlertField): field is AlertBooleanField {
+  return (ALERT_BOOLEAN_FIELDS as readonly string[]).includes(field)
+}
+
+export function describeAlertRule(rule: AlertRule): string {
+  const span = `${Math.round((rule.windowMs ?? DEFAULT_WINDOW_MS) / 60_000)}m`
+  switch (rule.op) {
+    case 'above':
+      return `${rule.field} ≥ ${rule.threshold}`
+    case 'below':
+      return `${rule.field} ≤ ${rule.threshold}`
+    case 'rises_pct':
+      return `${rule.field} +${rule.threshold}% in ${span}`
+    case 'drops_pct':
+      return `${rule.field} -${rule.threshold}% in ${span}`
+    case 'rises_by':
+      return `${rule.field} +${rule.threshold} in ${span}`
+    case 'drops_by':
+      return `${rule.field} -${rule.threshold} in ${span}`
+    case 'becomes_true':
+      return `${rule.field} becomes true`
+  }
+}
+
+export class AlertEngine {
+  private rules: AlertRule[] = []
+  // `${ruleId}|${mint}` → condition was true on the last evaluation.
+  private readonly active = new Map<string, boolean>()
+  private readonly lastFiredAt = new Map<string, number>()
+  // `${mint}|${field}` → last seen boolean value, for `becomes_true`.
+  private readonly lastBool = new Map<string, boolean>()
+
+  setRules(rules: AlertRule[]) {
+    this.rules = rules
+    const ids = new Set(rules.map((r) => r.id))
+    for (const key of Array.from(this.active.keys())) {
+      if (!ids.has(key.split('|')[0])) {
+        this.active.delete(key)
+        this.lastFiredAt.delete(key)
+      }
+    }
+  }
+
+  /** Call after the gateway has recorded `metrics` into its history. */
+  evaluate(metrics: TokenMetricsMessage, history: AlertHistorySource, now: number = Date.now()): AlertFiring[] {
+    const mint = metrics.mint
+    if (!mint) return []
+    const fired: AlertFiring[] = []
+
+    for (const rule of this.rules) {
+      if (!rule.enabled || (rule.mint && rule.mint !== mint)) continue
+      const value = this.conditionValue(rule, metrics, history, now)
+      if (value === undefined) continue // field not in this update: keep the previous state
+
+      const key = `${rule.id}|${mint}`
+      const wasActive = this.active.get(key) ?? false
+      const isActive = value !== false
+      this.active.set(key, isActive)
+      if (!isActive || wasActive) continue
+
+      const last = this.lastFiredAt.get(key) ?? 0
+      if (now - last < (rule.cooldownMs ?? DEFAULT_COOLDOWN_MS)) continue
+      this.lastFiredAt.set(key, now)
+      fired.push({
+        ruleId: rule.id,
+        mint,
+        at: now,
+        title: describeAlertRule(rule),
+        body: typeof value === 'number' ? `${mint.slice(0, 4)}…${mint.slice(-4)}: ${formatAlertValue(value)}` : `${mint.slice(0, 4)}…${mint.slice(-4)}`,
+      })
+    }
+
+    for (const field of ALERT_BOOLEAN_FIELDS) {
+      const v = metrics[field]
+      if (typeof v === 'boolean') this.lastBool.set(`${mint}|${field}`, v)
+    }
+    return fired
+  }
+
+  /** `false` when the condition is not met, the observed value (or `true`) when it is, undefined when unknown. */
+  private conditionValue(rule: AlertRule, metrics: TokenMetricsMessage, history: AlertHistorySource, now: number): number | boolean | undefined {
+    if (rule.op === 'becomes_true') {
+      if (!isBooleanAlertField(rule.field)) return undefined
+      const v = metrics[rule.field]
+      if (typeof v !== 'boolean') return undefined
+      // Only a seen false → true flip counts; a token that was already graduated when we subscribed doesn't fire.
+      const prev = this.lastBool.get(`${metrics.mint}|${rule.field}`)
+      return v && prev === false
+    }
+
+    if (isBooleanAlertField(rule.field)) return undefined
+    const field = rule.field
+
+    if (rule.op === 'above' || rule.op === 'below') {
+      const v = metrics[field]
+      if (typeof v !== 'number' || !Number.isFinite(v)) return undefined
+      const met = rule.op === 'above' ? v >= rule.threshold : v <= rule.threshold
+      return met ? v : false
+    }
+
+    if (typeof metrics[field] !== 'number') return undefined
+    const change = history.change(metrics.mint, field, rule.windowMs ?? DEFAULT_WINDOW_MS, now)
+    if (!change) return undefined
+    switch (rule.op) {
+      case 'rises_pct':
+        return typeof change.pct === 'number' && change.pct >= rule.threshold ? change.pct : false
+      case 'drops_pct':
+        return typeof change.pct === 'number' && -change.pct >= rule.threshold ? change.pct : false
+      case 'rises_by':
+        return change.delta >= rule.threshold ? change.delta : false
+      case 'drops_by':
+        return -change.delta >= rule.threshold ? change.delta : false
+    }
+  }
+}
+
+function formatAlertValue(n: number) {
+  const abs = Math.abs(n)
+  if (abs >= 1_000) return Math.round(n).toLocaleString()
+  return String(Math.round(n * 100) / 100)
+}
+
+function storageKey(wallet: string) {
+  return `dequanswap.alertRules.${wallet}`
+}
+
+export function loadAlertSettings(wallet: string): AlertSettings {
+  try {
+    const raw = localStorage.getItem(storageKey(wallet))
+    if (!raw) return DEFAULT_ALERT_SETTINGS
+    const parsed = JSON.parse(raw) as Record<string, unknown> | null
+    if (!parsed || typeof parsed !== 'object') return DEFAULT_ALERT_SETTINGS
+    const rules = Array.isArray(parsed.rules) ? parsed.rules.map(parseAlertRule).filter((r): r is AlertRule => r !== null) : []
+    return {
+      rules,
+      sound: typeof parsed.sound === 'boolean' ? parsed.sound : DEFAULT_ALERT_SETTINGS.sound,
+      notify: typeof parsed.notify === 'boolean' ? parsed.notify : DEFAULT_ALERT_SETTINGS.notify,
+    }
+  } catch {
+    return DEFAULT_ALERT_SETTINGS
+  }
+}
+
+export function saveAlertSettings(wallet: string, settings: AlertSettings) {
+  localStorage.setItem(storageKey(wallet), JSON.stringify(settings))
+}
+
+function parseAlertRule(x: unknown): AlertRule | null {
+  if (!x || typeof x !== 'object') return null
+  const r = x as Record<string, unknown>
+  const fields: readonly string[] = [...TOKEN_METRIC_NUMERIC_FIELDS, ...ALERT_BOOLEAN_FIELDS]
+  if (typeof r.id !== 'string' || !r.id) return null
+  if (typeof r.field !== 'string' || !fields.includes(r.field)) return null
+  if (typeof r.op !== 'string' || !(ALERT_OPS as string[]).includes(r.op)) return null
+  const rule: AlertRule = {
+    id: r.id,
+    field: r.field as AlertField,
+    op: r.op as AlertOp,
+    threshold: typeof r.threshold === 'number' && Number.isFinite(r.threshold) ? r.threshold : 0,
+    enabled: r.enabled !== false,
+  }
+  if (typeof r.mint === 'string' && r.mint) rule.mint = r.mint
+  if (typeof r.windowMs === 'number' && r.windowMs > 0) rule.windowMs = r.windowMs
+  if (typeof r.cooldownMs === 'number' && r.cooldownMs >= 0) rule.cooldownMs = r.cooldownMs
+  return rule
+}
+
+/** Short two-tone beep; no asset needed. Silently does nothing if audio is blocked. */
+export function playAlertSound() {
+  try {
+    const ctx = new AudioContext()
+    const osc = ctx.createOscillator()
+    const gain = ctx.createGain()
+    osc.type = 'sine'
+    osc.frequency.setValueAtTime(880, ctx.currentTime)
+    osc.frequency.setValueAtTime(1320, ctx.currentTime + 0.12)
+    gain.gain.setValueAtTime(0.12, ctx.currentTime)
+    gain.gain.exponentialRampToValueAtTime(0.0001, ctx.currentTime + 0.3)
+    osc.connect(gain)
+    gain.connect(ctx.destination)
+    osc.start()
+    osc.stop(ctx.currentTime + 0.3)
+    osc.onended = () => void ctx.close()
+  } catch {
+    // ignore
+  }
+}
+
+export function showAlertNotification(firing: AlertFiring) {
+  try {
+    if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return
+    new Notification(firing.title, { body: firing.body, tag: `${firing.ruleId}|${firing.mint}` })
+  } catch {
+    // ignore
+  }
+}
@@ -5,12 +5,35 @@
  * Replaces direct SolanaTracker connections with provider-agnostic backend.
  */
 
+import { TokenMetricsHistory, type MetricSample, type TokenMetricNumericField } from './metricsHistory'
+import type { WebSocketFactory } from './wsRecorder'
+
 export type DataGatewayWsOptions = {
   url: string
+  /** Reconnect backoff starts here and doubles per failed attempt (with jitter), up to `reconnectMaxMs`. */
   reconnectMinMs?: number
   reconnectMaxMs?: number
+  /** Consecutive failed reconnects before giving up (state `failed`). A later `connect()` starts over. Default: 10. */
+  maxReconnectAttempts?: number
+  /**
+   * How long a mint stays subscribed after its last `onToken` listener goes away, so quickly
+   * switching popouts back and forth doesn't churn subscribe/unsubscribe. Default: 1500ms.
+   */
+  unsubscribeDebounceMs?: number
+  /** A snapshot field counts as stale once its data is this old (including upstream `staleMs`). Default: 30s. */
+  staleAfterMs?: number
+  /** Samples kept per (mint, field) in the metrics history. Default: 720. */
+  historyCapacity?: number
+  /** Most mints sent in one `subscribe_tokens` message. Default: 100. */
+  subscribeBatchSize?: number
+  /** Gap between subscribe chunks, so a large resubscribe after reconnect trickles in. Default: 250ms. */
+  subscribeChunkIntervalMs?: number
+  /** Socket constructor override, used by the session recorder / replayer. */
+  webSocketFactory?: WebSocketFactory
 }
 
+export type DataGatewayConnectionState = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'failed'
+
 export type TokenMetricsMessage = {
   type: 'token_metrics'
   mint: string
@@ -54,6 +77,95 @@ export type TokenMetricsMessage = {
   staleMs?: number
 }
 
+export type TokenMetricField = Exclude<keyof TokenMetricsMessage, 'type' | 'mint' | 'timestamp' | 'source' | 'confidence' | 'staleMs'>
+
+export type TokenMetricSource = TokenMetricsMessage['source']
+export type TokenMetricConfidence = TokenMetricsMessage['confidence']
+
+/** One source's latest value for a field. */
+export type TokenMetricReading<K extends TokenMetricField = TokenMetricField> = {
+  value: NonNullable<TokenMetricsMessage[K]>
+  /** Local receive time of the message that last set this field. */
+  updatedAt: number
+  /** Local time at which the value becomes stale (accounts for the message's upstream `staleMs`). */
+  staleAt: number
+  source: TokenMetricSource
+  confidence: TokenMetricConfidence
+}
+
+/**
+ * The arbitrated value of a field (see `mergeSnapshot`), plus the latest reading from every
+ * source that reported it.
+ */
+export type TokenMetricFieldSnapshot<K extends TokenMetricField = TokenMetricField> = TokenMetricReading<K> & {
+  readings: TokenMetricReading<K>[]
+}
+
+/** Latest known value of every metric for a mint, merged across partial `token_metrics` updates. */
+export type TokenMetricsSnapshot = {
+  mint: string
+  updatedAt: number
+  fields: { [K in TokenMetricField]?: TokenMetricFieldSnapshot<K> }
+}
+
+// Error codes a gateway without `subscribe_tokens` support answers with.
+const BATCH_UNSUPPORTED_CODES = new Set(['unknown_type', 'unknown_message_type', 'unsupported_message_type'])
+
+const TOKEN_METRIC_META_KEYS = new Set(['type', 'mint', 'timestamp', 'source', 'confidence', 'staleMs'])
+
+/** Fields of `snapshot` that are stale at `now`. */
+export function staleTokenMetricFields(snapshot: TokenMetricsSnapshot | null | undefined, now: number = Date.now()): Set<TokenMetricField> {
+  const out = new Set<TokenMetricField>()
+  if (!snapshot) return out
+  for (const [field, entry] of Object.entries(snapshot.fields) as Array<[TokenMetricField, TokenMetricFieldSnapshot]>) {
+    if (entry && entry.staleAt <= now) out.add(field)
+  }
+  return out
+}
+
+export type TokenMetricDisagreement = {
+  field: TokenMetricField
+  /** Largest distance of another fresh source's value from the arbitrated one, in percent of it. */
+  spreadPct: number
+  readings: TokenMetricReading[]
+}
+
+const CONFIDENCE_RANK: Record<TokenMetricConfidence, number> = { low: 1, medium: 2, high: 3 }
+
+/** Numeric fields where fresh readings from different sources differ by more than `thresholdPct`. */
+export function tokenMetricDisagreements(
+  snapshot: TokenMetricsSnapshot | null | undefined,
+  now: number = Date.now(),
+  thresholdPct = 20,
+): TokenMetricDisagreement[] {
+  const out: TokenMetricDisagreement[] = []
+  if (!snapshot) return out
+  for (const [field, entry] of Object.entries(snapshot.fields) as Array<[TokenMetricField, TokenMetricFieldSnapshot]>) {
+    if (!entry || typeof entry.value !== 'number' || entry.value === 0) continue
+    const fresh = entry.readings.filter((r) => r.staleAt > now && typeof r.value === 'number')
+    if (fresh.length < 2) continue
+    let spreadPct = 0
+    for (const r of fresh) {
+      spreadPct = Math.max(spreadPct, (Math.abs((r.value as number) - entry.value) / Math.abs(entry.value)) * 100)
+    }
+    if (spreadPct > thresholdPct) out.push({ field, spreadPct, readings: fresh })
+  }
+  return out
+}
+
+/** Tooltip text: which source the value came from, how old it is, and what the other sources said. */
+export function describeTokenMetricProvenance(entry: TokenMetricFieldSnapshot | undefined, now: number = Date.now()): string {
+  if (!entry) return 'No data yet'
+  const describe = (r: TokenMetricReading) =>
+    `${r.source} (${r.confidence}, ${Math.max(0, Math.round((now - r.updatedAt) / 1000))}s ago${r.staleAt <= now ? ', stale' : ''})`
+  const lines = [`From ${describe(entry)}`]
+  for (const r of entry.readings) {
+    if (r.source === entry.source) continue
+    lines.push(`${r.source}: ${String(r.value)} · ${describe(r).slice(r.source.length + 1)}`)
+  }
+  return lines.join('\n')
+}
+
 export type DataGatewayMessage =
   | { type: 'subscribed'; mint: string; source?: string }
   | { type: 'unsubscribed'; mint: string }
@@ -65,17 +177,43 @@ export class DataGatewayWs {
   private readonly url: string
   private readonly reconnectMinMs: number
   private readonly reconnectMaxMs: number
+  private readonly maxReconnectAttempts: number
+  private readonly unsubscribeDebounceMs: number
+  private readonly staleAfterMs: number
+  private readonly subscribeBatchSize: number
+  private readonly subscribeChunkIntervalMs: number
+  private readonly webSocketFactory?: WebSocketFactory
 
+  // Subscriptions are ref-counted by listener: a mint is subscribed while it has at least one
+  // `onToken` listener (plus the unsubscribe debounce).
   private readonly mintListeners = new Map<string, Set<(data: TokenMetricsMessage) => void>>()
+  private readonly pendingUnsubscribes = new Map<string, number>()
+  private readonly snapshots = new Map<string, TokenMetricsSnapshot>()
+  private readonly history: TokenMetricsHistory
+  // Mints waiting to be subscribed; flushed in chunks of `subscribeBatchSize`.
+  private readonly subscribeQueue = new Set<string>()
+  private subscribeFlushTimer: number | null = null
+  private batchSubscribeUnsupported = false
   private readonly globalListeners = new Set<(msg: DataGatewayMessage) => void>()
+  private readonly stateListeners = new Set<(state: DataGatewayConnectionState) => void>()
 
+  private state: DataGatewayConnectionState = 'idle'
+  private connectPromise: Promise<void> | null = null
   private reconnectTimer: number | null = null
+  private reconnectAttempt = 0
   private destroyed = false
 
   constructor(opts: DataGatewayWsOptions) {
     this.url = opts.url
     this.reconnectMinMs = opts.reconnectMinMs ?? 1000
     this.reconnectMaxMs = opts.reconnectMaxMs ?? 6000
+    this.maxReconnectAttempts = opts.maxReconnectAttempts ?? 10
+    this.unsubscribeDebounceMs = opts.unsubscribeDebounceMs ?? 1500
+    this.staleAfterMs = opts.staleAfterMs ?? 30_000
+    this.history = new TokenMetricsHistory({ capacity: opts.historyCapacity })
+    this.subscribeBatchSize = Math.max(1, opts.subscribeBatchSize ?? 100)
+    this.subscribeChunkIntervalMs = opts.subscribeChunkIntervalMs ?? 250
+    this.webSocketFactory = opts.webSocketFactory
   }
 
   get endpointUrl() {
@@ -86,25 +224,69 @@ export class DataGatewayWs {
     return this.ws?.readyState === WebSocket.OPEN
   }
 
+  get connectionState() {
+    return this.state
+  }
+
+  /** Reconnect attempts since the socket was last open (0 while healthy). */
+  get reconnectAttempts() {
+    return this.reconnectAttempt
+  }
+
   /**
-   * Listen for metrics updates for a specific token
+   * Listen for metrics updates for a specific token. The first listener for a mint subscribes it;
+   * removing the last one unsubscribes after `unsubscribeDebounceMs`.
    */
   onToken(mint: string, fn: (data: TokenMetricsMessage) => void): () => void {
     const m = String(mint || '').trim()
     if (!m) return () => {}
     
-    const set = this.mintListeners.get(m) ?? new Set()
+    let set = this.mintListeners.get(m)
+    if (!set) {
+      set = new Set()
+      this.mintListeners.set(m, set)
+      this.retain(m)
+    }
     set.add(fn)
-    this.mintListeners.set(m, set)
     
+    let removed = false
     return () => {
+      if (removed) return
+      removed = true
       const cur = this.mintListeners.get(m)
       if (!cur) return
       cur.delete(fn)
-      if (cur.size === 0) this.mintListeners.delete(m)
+      if (cur.size === 0) {
+        this.mintListeners.delete(m)
+        this.release(m)
+      }
     }
   }
 
+  /**
+   * Latest merged metrics for a subscribed mint, or null before the first update. Kept until
+   * the mint is unsubscribed, so late-mounting UI can render immediately.
+   */
+  getSnapshot(mint: string): TokenMetricsSnapshot | null {
+    const snap = this.snapshots.get(String(mint || '').trim())
+    return snap ? { ...snap, fields: { ...snap.fields } } : null
+  }
+
+  isStale(mint: string, field: TokenMetricField, now: number = Date.now()): boolean {
+    const entry = this.snapshots.get(String(mint || '').trim())?.fields[field]
+    return !entry || entry.staleAt <= now
+  }
+
+  /** Numeric history of `field` for a subscribed mint since `sinceMs` (epoch ms), oldest first. Dropped on unsubscribe. */
+  series(mint: string, field: TokenMetricNumericField, sinceMs = 0): MetricSample[] {
+    return this.history.series(String(mint || '').trim(), field, sinceMs)
+  }
+
+  /** Change of `field` over the last `windowMs`; see `TokenMetricsHistory.change`. */
+  change(mint: string, field: TokenMetricNumericField, windowMs: number, now: number = Date.now()) {
+    return this.history.change(String(mint || '').trim(), field, windowMs, now)
+  }
+
   /**
    * Listen for all gateway messages
    */
@@ -115,12 +297,36 @@ export class DataGatewayWs {
     }
   }
 
+  onStateChange(listener: (state: DataGatewayConnectionState) => void): () => void {
+    this.stateListeners.add(listener)
+    return () => {
+      this.stateListeners.delete(listener)
+    }
+  }
+
   async connect(): Promise<void> {
     if (this.destroyed) throw new Error('DataGatewayWs destroyed')
     if (this.isOpen) return
+    if (this.connectPromise) return this.connectPromise
+
+    if (this.reconnectTimer) {
+      // Caller wants the socket now; skip the remaining backoff delay.
+      window.clearTimeout(this.reconnectTimer)
+      this.reconnectTimer = null
+    }
+    // An explicit connect after giving up gets a fresh reconnect budget.
+    if (this.state === 'failed') this.reconnectAttempt = 0
+    this.setState(this.state === 'reconnecting' ? 'reconnecting' : 'connecting')
+
+    this.connectPromise = this.openSocket().finally(() => {
+      this.connectPromise = null
+    })
+    return this.connectPromise
+  }
 
-    await new Promise<void>((resolve, reject) => {
-      const ws = new WebSocket(this.url)
+  private openSocket(): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const ws = this.webSocketFactory ? this.webSocketFactory(this.url) : new WebSocket(this.url)
       this.ws = ws
 
       const cleanup = () => {
@@ -131,20 +337,17 @@ export class DataGatewayWs {
       const onOpen = () => {
         cleanup()
         
-        // Resubscribe to all active mints
+        // A fresh socket has no subscriptions, so debounced unsubscribes have nothing left to undo.
+        this.clearPendingUnsubscribes()
+
+        // Resubscribe to all active mints (batched and chunked)
+        this.subscribeQueue.clear()
         for (const mint of this.mintListeners.keys()) {
-          this.sendSubscribe(ws, mint)
+          this.queueSubscribe(mint)
         }
 
-        // Notify listeners
-        for (const fn of this.globalListeners) {
-          try {
-            fn({ type: 'subscribed', mint: '', source: 'gateway' })
-          } catch {
-            // ignore
-          }
-        }
-        
+        this.reconnectAttempt = 0
+        this.setState('open')
         resolve()
       }
 
@@ -157,30 +360,16 @@ export class DataGatewayWs {
       ws.addEventListener('error', onError)
 
       ws.addEventListener('close', () => {
-        // Notify listeners
-        for (const fn of this.globalListeners) {
-          try {
-            fn({ type: 'error', code: 'disconnected', message: 'Gateway disconnected' })
-          } catch {
-            // ignore
-          }
-        }
-
+        cleanup()
+        // Covers sockets that close without an error event (e.g. server refused the upgrade).
+        reject(new Error('Data Gateway WS closed'))
+        if (this.ws !== ws) return
+        this.ws = null
         if (!this.destroyed) {
           this.scheduleReconnect()
         }
       })
 
-      ws.addEventListener('error', () => {
-        for (const fn of this.globalListeners) {
-          try {
-            fn({ type: 'error', code: 'ws_error', message: 'WebSocket error' })
-          } catch {
-            // ignore
-          }
-        }
-      })
-
       ws.addEventListener('message', (event) => {
         let parsed: DataGatewayMessage | null = null
         try {
@@ -191,6 +380,21 @@ export class DataGatewayWs {
 
         if (!parsed || typeof parsed !== 'object') return
 
+        if (parsed.type === 'error' && !parsed.mint && !this.batchSubscribeUnsupported && this.isBatchUnsupportedError(parsed)) {
+          // Older gateway: fall back to one `subscribe_token` per mint and redo everything we batched.
+          this.batchSubscribeUnsupported = true
+          for (const mint of this.mintListeners.keys()) {
+            this.queueSubscribe(mint)
+          }
+        }
+
+        // Update snapshot/history first so every listener (global or per-mint) can query them.
+        // Listeners get the arbitrated message: fields another source currently wins are nulled.
+        if (parsed.type === 'token_metrics') {
+          parsed = this.mergeSnapshot(parsed)
+          this.history.record(parsed)
+        }
+
         // Broadcast to global listeners
         for (const fn of this.globalListeners) {
           try {
@@ -218,34 +422,14 @@ export class DataGatewayWs {
     })
   }
 
-  /**
-   * Subscribe to token metrics
-   */
-  subscribe(mint: string) {
-    const m = String(mint || '').trim()
-    if (!m) return
-    
-    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      this.sendSubscribe(this.ws, m)
-    }
-  }
-
-  /**
-   * Unsubscribe from token metrics
-   */
-  unsubscribe(mint: string) {
-    const m = String(mint || '').trim()
-    if (!m) return
-    
-    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      this.sendUnsubscribe(this.ws, m)
-    }
-  }
-
   destroy() {
     this.destroyed = true
     if (this.reconnectTimer) window.clearTimeout(this.reconnectTimer)
     this.reconnectTimer = null
+    this.clearPendingUnsubscribes()
+    if (this.subscribeFlushTimer) window.clearTimeout(this.subscribeFlushTimer)
+    this.subscribeFlushTimer = null
+    this.subscribeQueue.clear()
     
     try {
       this.ws?.close()
@@ -254,13 +438,143 @@ export class DataGatewayWs {
     }
     
     this.ws = null
+    this.snapshots.clear()
+    this.history.clear()
     this.mintListeners.clear()
     this.globalListeners.clear()
+    this.stateListeners.clear()
+  }
+
+  private retain(mint: string) {
+    const pending = this.pendingUnsubscribes.get(mint)
+    if (pending !== undefined) {
+      // Still subscribed upstream; just cancel the teardown.
+      window.clearTimeout(pending)
+      this.pendingUnsubscribes.delete(mint)
+      return
+    }
+    this.queueSubscribe(mint)
+  }
+
+  private release(mint: string) {
+    if (this.pendingUnsubscribes.has(mint)) return
+    const timer = window.setTimeout(() => {
+      this.pendingUnsubscribes.delete(mint)
+      if (this.mintListeners.has(mint)) return
+      this.snapshots.delete(mint)
+      this.history.delete(mint)
+      if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+        this.sendUnsubscribe(this.ws, mint)
+      }
+    }, this.unsubscribeDebounceMs)
+    this.pendingUnsubscribes.set(mint, timer)
+  }
+
+  private clearPendingUnsubscribes() {
+    for (const [mint, timer] of this.pendingUnsubscribes) {
+      window.clearTimeout(timer)
+      this.snapshots.delete(mint)
+      this.history.delete(mint)
+    }
+    this.pendingUnsubscribes.clear()
   }
 
+  /**
+   * Field-level source arbitration: every source's latest reading is kept, and the field's value
+   * is the highest-confidence fresh reading (the newest one on ties). A reading only loses to a
+   * fresh reading from another source with higher confidence.
+   *
+   * Returns the message with the fields it lost set to `null` ("not in this update"), which is
+   * what history and listeners see; spreading it over state would clear those fields.
+   */
+  private mergeSnapshot(metrics: TokenMetricsMessage): TokenMetricsMessage {
+    if (!metrics.mint) return metrics
+    const now = Date.now()
+    const upstreamAgeMs = typeof metrics.staleMs === 'number' && metrics.staleMs > 0 ? metrics.staleMs : 0
+    const snap = this.snapshots.get(metrics.mint) ?? { mint: metrics.mint, updatedAt: now, fields: {} }
+    const fields = snap.fields as Record<string, TokenMetricFieldSnapshot>
+    const effective: Record<string, unknown> = { ...metrics }
+    for (const [key, value] of Object.entries(metrics)) {
+      // null/undefined mean "not in this update", not "cleared".
+      if (TOKEN_METRIC_META_KEYS.has(key) || value === null || value === undefined) continue
+      const reading: TokenMetricReading = {
+        value: value as TokenMetricReading['value'],
+        updatedAt: now,
+        staleAt: now - upstreamAgeMs + this.staleAfterMs,
+        source: metrics.source,
+        confidence: metrics.confidence,
+      }
+      const prev = fields[key]
+      const readings = [...(prev?.readings ?? []).filter((r) => r.source !== reading.source), reading]
+      const winner = readings.reduce((best, r) => {
+        const bestFresh = best.staleAt > now
+        const rFresh = r.staleAt > now
+        if (bestFresh !== rFresh) return rFresh ? r : best
+        const rank = CONFIDENCE_RANK[r.confidence] - CONFIDENCE_RANK[best.confidence]
+        if (rank !== 0) return rank > 0 ? r : best
+        return r.updatedAt - best.updatedAt >= 0 ? r : best
+      })
+      fields[key] = { ...winner, readings }
+      if (winner !== reading) effective[key] = null
+    }
+    snap.updatedAt = now
+    this.snapshots.set(metrics.mint, snap)
+    return effective as TokenMetricsMessage
+  }
+
+  // Subscribes made in the same tick share a message; anything beyond one batch waits for the next chunk.
+  private queueSubscribe(mint: string) {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return
+    this.subscribeQueue.add(mint)
+    if (this.subscribeFlushTimer === null) {
+      this.subscribeFlushTimer = window.setTimeout(() => this.flushSubscribes(), 0)
+    }
+  }
+
+  private flushSubscribes() {
+    this.subscribeFlushTimer = null
+    const ws = this.ws
+    if (!ws || ws.readyState !== WebSocket.OPEN) {
+      // The next open resubscribes everything anyway.
+      this.subscribeQueue.clear()
+      return
+    }
+
+    const chunk: string[] = []
+    for (const mint of this.subscribeQueue) {
+      this.subscribeQueue.delete(mint)
+      if (!this.mintListeners.has(mint)) continue
+      chunk.push(mint)
+      if (chunk.length >= this.subscribeBatchSize) break
+    }
+
+    if (chunk.length === 1 || this.batchSubscribeUnsupported) {
+      for (const mint of chunk) this.sendSubscribe(ws, mint)
+    } else if (chunk.length > 1) {
+      this.sendSubscribeBatch(ws, chunk)
+    }
+
+    if (this.subscribeQueue.size) {
+      this.subscribeFlushTimer = window.setTimeout(() => this.flushSubscribes(), this.subscribeChunkIntervalMs)
+    }
+  }
+
+  private isBatchUnsupportedError(msg: { code: string; message: string }): boolean {
+    return BATCH_UNSUPPORTED_CODES.has(String(msg.code || '')) || /subscribe_tokens/.test(String(msg.message || ''))
+  }
+
+  // `snapshot: true` asks the gateway to reply with the current metrics right away instead of waiting for the next push.
   private sendSubscribe(ws: WebSocket, mint: string) {
     try {
-      ws.send(JSON.stringify({ type: 'subscribe_token', mint }))
+      ws.send(JSON.stringify({ type: 'subscribe_token', mint, snapshot: true }))
+    } catch {
+      // ignore
+    }
+  }
+
+  private sendSubscribeBatch(ws: WebSocket, mints: string[]) {
+    try {
+      ws.send(JSON.stringify({ type: 'subscribe_tokens', mints, snapshot: true }))
     } catch {
       // ignore
     }
@@ -276,18 +590,35 @@ export class DataGatewayWs {
 
   private scheduleReconnect() {
     if (this.reconnectTimer) return
-    
-    const delay = Math.floor(
-      this.reconnectMinMs + Math.random() * Math.max(0, this.reconnectMaxMs - this.reconnectMinMs),
-    )
-    
+    if (this.reconnectAttempt >= this.maxReconnectAttempts) {
+      this.setState('failed')
+      return
+    }
+
+    // Exponential backoff with "equal jitter": half fixed, half random.
+    const base = Math.min(this.reconnectMaxMs, this.reconnectMinMs * 2 ** this.reconnectAttempt)
+    const delay = Math.floor(base / 2 + Math.random() * (base / 2))
+    this.reconnectAttempt += 1
+    this.setState('reconnecting')
+
     this.reconnectTimer = window.setTimeout(() => {
       this.reconnectTimer = null
       if (this.destroyed) return
-      
       this.connect().catch(() => {
-        if (!this.destroyed) this.scheduleReconnect()
+        // The socket's close handler schedules the next attempt (or gives up).
       })
     }, delay)
   }
+
+  private setState(next: DataGatewayConnectionState) {
+    if (this.state === next) return
+    this.state = next
+    for (const fn of this.stateListeners) {
+      try {
+        fn(next)
+      } catch {
+        // ignore
+      }
+    }
+  }
 }
@@ -0,0 +1,88 @@
+/**
+ * In-memory stand-in for a browser WebSocket, for the `webSocketFactory` option of our clients.
+ *
+ * Covers the slice of the API the clients use (readyState, send, close, add/removeEventListener).
+ * The "server" side is driven through `serverOpen`/`serverMessage`/`serverError`/`serverClose`,
+ * and client sends/closes are reported through the hooks passed to the constructor.
+ */
+
+type FakeListener = (event: Event) => void
+
+export type FakeWebSocketHooks = {
+  /** A frame the client sent. */
+  onSend?: (data: string) => void
+  /** The socket reached CLOSED, from either side. */
+  onClose?: () => void
+}
+
+export class FakeWebSocket {
+  readonly url: string
+  readyState: number = WebSocket.CONNECTING
+  binaryType: BinaryType = 'blob'
+
+  private readonly hooks: FakeWebSocketHooks
+  private readonly listeners = new Map<string, Set<FakeListener>>()
+
+  constructor(url: string, hooks: FakeWebSocketHooks = {}) {
+    this.url = url
+    this.hooks = hooks
+  }
+
+  addEventListener(type: string, fn: FakeListener) {
+    const set = this.listeners.get(type) ?? new Set()
+    set.add(fn)
+    this.listeners.set(type, set)
+  }
+
+  removeEventListener(type: string, fn: FakeListener) {
+    this.listeners.get(type)?.delete(fn)
+  }
+
+  send(data: string) {
+    if (this.readyState !== WebSocket.OPEN) throw new Error('WebSocket is not open')
+    this.hooks.onSend?.(String(data))
+  }
+
+  close(code = 1000, reason = '') {
+    this.serverClose(code, reason)
+  }
+
+  serverOpen() {
+    if (this.readyState !== WebSocket.CONNECTING) return
+    this.readyState = WebSocket.OPEN
+    this.emit('open', new Event('open'))
+  }
+
+  serverMessage(data: string) {
+    if (this.readyState !== WebSocket.OPEN) return
+    this.emit('message', new MessageEvent('message', { data }))
+  }
+
+  serverError() {
+    if (this.readyState === WebSocket.CLOSED) return
+    this.emit('error', new Event('error'))
+  }
+
+  serverClose(code: number, reason: string) {
+    if (this.readyState === WebSocket.CLOSED) return
+    this.readyState = WebSocket.CLOSED
+    this.hooks.onClose?.()
+    this.emit('close', new CloseEvent('close', { code, reason, wasClean: code === 1000 }))
+  }
+
+  asWebSocket(): WebSocket {
+    return this as unknown as WebSocket
+  }
+
+  private emit(type: string, event: Event) {
+    const set = this.listeners.get(type)
+    if (!set) return
+    for (const fn of Array.from(set)) {
+      try {
+        fn(event)
+      } catch {
+        // ignore
+      }
+    }
+  }
+}
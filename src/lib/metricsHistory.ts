@@ -0,0 +1,127 @@
+/**
+ * Bounded per-mint history of numeric token metrics, fed by DataGatewayWs.
+ *
+ * Each (mint, field) pair keeps a fixed-size ring of `{t, value}` samples, so holder growth,
+ * liquidity drain or sniper exits can be charted or turned into rates instead of being
+ * overwritten by the next `token_metrics` push.
+ */
+
+import type { TokenMetricsMessage } from './dataGatewayWs'
+
+export const TOKEN_METRIC_NUMERIC_FIELDS = [
+  'holders',
+  'liquidityUsd',
+  'marketCapUsd',
+  'priceUsd',
+  'tx5m',
+  'vol5mUsd',
+  'top10Pct',
+  'devPct',
+  'sniperPct',
+  'insiderPct',
+  'curvePct',
+  'feesUsd',
+  'volume24hUsd',
+  'priceChange24h',
+] as const
+
+export type TokenMetricNumericField = (typeof TOKEN_METRIC_NUMERIC_FIELDS)[number]
+
+export type MetricSample = {
+  /** Local receive time (ms). */
+  t: number
+  value: number
+}
+
+export type TokenMetricsHistoryOptions = {
+  /** Samples kept per (mint, field). Default: 720 (about 12 minutes at one update per second). */
+  capacity?: number
+}
+
+class SampleRing {
+  private readonly times: Float64Array
+  private readonly values: Float64Array
+  private start = 0
+  private size = 0
+
+  constructor(capacity: number) {
+    this.times = new Float64Array(capacity)
+    this.values = new Float64Array(capacity)
+  }
+
+  push(t: number, value: number) {
+    const cap = this.times.length
+    const idx = (this.start + this.size) % cap
+    this.times[idx] = t
+    this.values[idx] = value
+    if (this.size < cap) this.size += 1
+    else this.start = (this.start + 1) % cap
+  }
+
+  since(sinceMs: number): MetricSample[] {
+    const out: MetricSample[] = []
+    const cap = this.times.length
+    for (let i = 0; i < this.size; i += 1) {
+      const idx = (this.start + i) % cap
+      if (this.times[idx] >= sinceMs) out.push({ t: this.times[idx], value: this.values[idx] })
+    }
+    return out
+  }
+}
+
+export class TokenMetricsHistory {
+  private readonly capacity: number
+  private readonly mints = new Map<string, Map<TokenMetricNumericField, SampleRing>>()
+
+  constructor(opts: TokenMetricsHistoryOptions = {}) {
+    this.capacity = Math.max(2, Math.floor(opts.capacity ?? 720))
+  }
+
+  record(metrics: TokenMetricsMessage, now: number = Date.now()) {
+    if (!metrics.mint) return
+    let fields = this.mints.get(metrics.mint)
+    for (const field of TOKEN_METRIC_NUMERIC_FIELDS) {
+      const value = metrics[field]
+      if (typeof value !== 'number' || !Number.isFinite(value)) continue
+      if (!fields) {
+        fields = new Map()
+        this.mints.set(metrics.mint, fields)
+      }
+      let ring = fields.get(field)
+      if (!ring) {
+        ring = new SampleRing(this.capacity)
+        fields.set(field, ring)
+      }
+      ring.push(now, value)
+    }
+  }
+
+  /** Samples of `field` for `mint` received at or after `sinceMs` (epoch ms), oldest first. */
+  series(mint: string, field: TokenMetricNumericField, sinceMs = 0): MetricSample[] {
+    return this.mints.get(mint)?.get(field)?.since(sinceMs) ?? []
+  }
+
+  /**
+   * Change of `field` over the last `windowMs`, from the oldest sample inside the window to the
+   * latest. Undefined until the window holds two samples.
+   */
+  change(mint: string, field: TokenMetricNumericField, windowMs: number, now: number = Date.now()) {
+    const samples = this.series(mint, field, now - windowMs)
+    if (samples.length < 2) return undefined
+    const first = samples[0]
+    const last = samples[samples.length - 1]
+    return {
+      delta: last.value - first.value,
+      pct: first.value !== 0 ? ((last.value - first.value) / Math.abs(first.value)) * 100 : undefined,
+      spanMs: last.t - first.t,
+    }
+  }
+
+  delete(mint: string) {
+    this.mints.delete(mint)
+  }
+
+  clear() {
+    this.mints.clear()
+  }
+}
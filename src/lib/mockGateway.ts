@@ -0,0 +1,363 @@
+/**
+ * Mock Data Gateway for offline development: speaks the gateway protocol (`subscribe_token`,
+ * `subscribe_tokens`, `unsubscribe_token`) and streams simulated `token_metrics` with
+ * `source: 'mock'`.
+ *
+ * Used two ways:
+ * - in the browser, via `createMockGatewaySocketFactory()` as DataGatewayWs's `webSocketFactory`
+ *   (enabled with `VITE_DATA_GATEWAY_MOCK=<scenario>`);
+ * - from Node, via `scripts/mockGateway.mjs`, which serves the same simulation over a real WebSocket.
+ *
+ * Each mint follows a seeded lifecycle, so the same mint and scenario always tell the same story.
+ * This module must not touch browser globals at load time (the Node script imports it).
+ */
+
+import { FakeWebSocket } from './fakeWebSocket'
+import type { TokenMetricsMessage } from './dataGatewayWs'
+import type { WebSocketFactory } from './wsRecorder'
+
+export const MOCK_SCENARIOS = ['mixed', 'launch', 'pump', 'dev_sell', 'rug', 'graduation'] as const
+
+export type MockScenario = (typeof MOCK_SCENARIOS)[number]
+
+export type MockGatewayOptions = {
+  /** `mixed` gives each mint one of the other scenarios, picked from its address. Default: mixed. */
+  scenario?: MockScenario
+  /** Real ms between updates per mint. Default: 1000. */
+  tickMs?: number
+  /** Simulated seconds per tick. Default: 1 (raise it to fast-forward a lifecycle). */
+  speed?: number
+}
+
+export type MockGatewayConnection = {
+  receive(raw: string): void
+  close(): void
+}
+
+type MockConnectionState = {
+  subscribed: Set<string>
+  /** Sends a message (serialized already, or serialized here) unless the connection closed. */
+  push: (msg: unknown) => void
+}
+
+const LIFECYCLE_SCENARIOS: Exclude<MockScenario, 'mixed'>[] = ['launch', 'pump', 'dev_sell', 'rug', 'graduation']
+
+// Pump.fun-style constants: 1B supply, curve completes around $69k market cap.
+const SUPPLY = 1_000_000_000
+const GRADUATION_MC_USD = 69_000
+
+// Concentration fields only come every few ticks, so the client's partial-update merging gets exercised.
+const CONCENTRATION_EVERY_TICKS = 5
+
+export function parseMockScenario(raw: unknown): MockScenario | null {
+  const s = String(raw ?? '').trim().toLowerCase()
+  if (!s || s === '0' || s === 'false' || s === 'off') return null
+  if (s === '1' || s === 'true' || s === 'on') return 'mixed'
+  return (MOCK_SCENARIOS as readonly string[]).includes(s) ? (s as MockScenario) : 'mixed'
+}
+
+function hashString(s: string): number {
+  let h = 2166136261
+  for (let i = 0; i < s.length; i += 1) {
+    h ^= s.charCodeAt(i)
+    h = Math.imul(h, 16777619)
+  }
+  return h >>> 0
+}
+
+// mulberry32: small, fast, seedable.
+function createRng(seed: number): () => number {
+  let a = seed >>> 0
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0
+    let t = a
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * One mint's simulated lifecycle. `step()` advances by `dtSec` simulated seconds and returns the
+ * update to send; `snapshot()` reports the current state without advancing it.
+ */
+class MockTokenSim {
+  private readonly mint: string
+  private readonly scenario: Exclude<MockScenario, 'mixed'>
+  private readonly rng: () => number
+  private t = 0
+  private ticks = 0
+
+  private priceUsd: number
+  private liquidityUsd: number
+  private holders: number
+  private tx5m: number
+  private vol5mUsd: number
+  private top10Pct: number
+  private devPct: number
+  private sniperPct: number
+  private insiderPct: number
+  private feesUsd = 0
+  private graduating = false
+  private graduated = false
+  private primaryPoolId: string
+  private devSold = false
+  private rugged = false
+
+  constructor(mint: string, scenario: MockScenario) {
+    const seed = hashString(`${mint}|${scenario}`)
+    this.mint = mint
+    this.scenario = scenario === 'mixed' ? LIFECYCLE_SCENARIOS[hashString(mint) % LIFECYCLE_SCENARIOS.length] : scenario
+    this.rng = createRng(seed)
+    this.priceUsd = (4_000 + this.rng() * 3_000) / SUPPLY
+    this.liquidityUsd = 6_000 + this.rng() * 3_000
+    this.holders = 3 + Math.floor(this.rng() * 10)
+    this.tx5m = 20 + Math.floor(this.rng() * 40)
+    this.vol5mUsd = 1_500 + this.rng() * 2_000
+    this.top10Pct = 55 + this.rng() * 15
+    this.devPct = 3 + this.rng() * 4
+    this.sniperPct = 18 + this.rng() * 12
+    this.insiderPct = 6 + this.rng() * 8
+    this.primaryPoolId = `mockpool-bc-${mint.slice(0, 6)}`
+  }
+
+  step(dtSec: number): TokenMetricsMessage {
+    this.t += dtSec
+    this.ticks += 1
+    const t = this.t
+    const noise = () => (this.rng() - 0.5) * 2
+
+    // Baseline: mild drift with noise; each scenario bends it.
+    let drift = 0.0008
+    let activity = 1
+    switch (this.scenario) {
+      case 'launch':
+        drift = t < 180 ? 0.003 : 0.0002
+        activity = t < 180 ? 1.5 : 0.8
+        break
+      case 'pump':
+        drift = t > 30 && t < 210 ? 0.009 : t >= 210 ? -0.002 : 0.001
+        activity = t > 30 && t < 210 ? 3 : 1
+        break
+      case 'dev_sell':
+        if (!this.devSold && t >= 90) {
+          this.devSold = true
+          this.devPct = 0
+          this.priceUsd *= 0.6
+          this.liquidityUsd *= 0.75
+          this.tx5m += 120
+        }
+        drift = this.devSold ? -0.0015 : 0.002
+        activity = this.devSold ? 1.8 : 1.2
+        break
+      case 'rug':
+        if (!this.rugged && t >= 120) {
+          this.rugged = true
+          this.liquidityUsd = 40 + this.rng() * 60
+          this.priceUsd *= 0.05
+          this.tx5m += 200
+        }
+        drift = this.rugged ? -0.004 : 0.003
+        activity = this.rugged ? 0.2 : 1.4
+        break
+      case 'graduation':
+        drift = this.graduated ? 0.0005 : 0.006
+        activity = 2
+        break
+    }
+
+    this.priceUsd = Math.max(1e-9, this.priceUsd * Math.exp(drift * dtSec + noise() * 0.01 * Math.sqrt(dtSec)))
+    const marketCapUsd = this.priceUsd * SUPPLY
+
+    if (!this.rugged) {
+      // Liquidity tracks market cap loosely.
+      this.liquidityUsd = Math.max(500, this.liquidityUsd * 0.97 + marketCapUsd * 0.18 * 0.03)
+    }
+
+    const holderGrowth = this.rugged ? -0.2 : drift > 0 ? activity * (0.6 + this.rng()) : -0.3 * this.rng()
+    this.holders = Math.max(1, Math.round(this.holders + holderGrowth * dtSec))
+    this.tx5m = Math.max(0, Math.round(this.tx5m * 0.98 + activity * (2 + this.rng() * 4) * dtSec))
+    this.vol5mUsd = Math.max(0, this.vol5mUsd * 0.98 + activity * this.priceUsd * SUPPLY * 0.0004 * dtSec * (0.5 + this.rng()))
+    this.feesUsd += this.vol5mUsd * 0.0001 * dtSec
+
+    // Snipers exit over the first minutes; concentration spreads out as holders grow.
+    this.sniperPct = Math.max(0.5, this.sniperPct * Math.exp(-0.004 * dtSec) + noise() * 0.2)
+    this.insiderPct = Math.max(0, this.insiderPct + noise() * 0.1)
+    this.top10Pct = Math.min(95, Math.max(12, 100 * (8 / Math.sqrt(this.holders + 60)) + noise()))
+
+    if (!this.graduated) {
+      const curvePct = this.curvePct()
+      if (curvePct >= 95) this.graduating = true
+      if (curvePct >= 100) {
+        this.graduated = true
+        this.graduating = false
+        this.primaryPoolId = `mockpool-amm-${this.mint.slice(0, 6)}`
+      }
+    }
+
+    return this.message(this.ticks % CONCENTRATION_EVERY_TICKS === 1)
+  }
+
+  /** Full current state, concentration fields included; does not advance the simulation. */
+  snapshot(): TokenMetricsMessage {
+    return this.message(true)
+  }
+
+  private curvePct() {
+    return Math.min(100, Math.max(0, ((this.priceUsd * SUPPLY) / GRADUATION_MC_USD) * 100))
+  }
+
+  private message(concentration: boolean): TokenMetricsMessage {
+    const marketCapUsd = this.priceUsd * SUPPLY
+    const msg: TokenMetricsMessage = {
+      type: 'token_metrics',
+      mint: this.mint,
+      timestamp: Date.now(),
+      holders: this.holders,
+      liquidityUsd: Math.round(this.liquidityUsd),
+      marketCapUsd: Math.round(marketCapUsd),
+      priceUsd: this.priceUsd,
+      tx5m: this.tx5m,
+      vol5mUsd: Math.round(this.vol5mUsd),
+      curvePct: this.graduated ? 100 : this.curvePct(),
+      graduating: this.graduating,
+      graduated: this.graduated,
+      feesUsd: Math.round(this.feesUsd),
+      primaryPoolId: this.primaryPoolId,
+      primaryPoolDex: this.graduated ? 'mock-amm' : 'mock-bonding-curve',
+      source: 'mock',
+      confidence: 'high',
+      staleMs: 0,
+    }
+    if (concentration) {
+      msg.top10Pct = Math.round(this.top10Pct * 100) / 100
+      msg.devPct = Math.round(this.devPct * 100) / 100
+      msg.sniperPct = Math.round(this.sniperPct * 100) / 100
+      msg.insiderPct = Math.round(this.insiderPct * 100) / 100
+    }
+    return msg
+  }
+}
+
+/**
+ * Transport-agnostic mock gateway. Each connection gets its own subscriptions, but all connections
+ * share the per-mint simulations, like clients of one real gateway would: one gateway-level timer
+ * steps every subscribed mint once per tick and fans the update out to its subscribers.
+ */
+export class MockGateway {
+  private readonly scenario: MockScenario
+  private readonly tickMs: number
+  private readonly speed: number
+  private readonly sims = new Map<string, MockTokenSim>()
+  private readonly connections = new Set<MockConnectionState>()
+  private timer: ReturnType<typeof setInterval> | null = null
+
+  constructor(opts: MockGatewayOptions = {}) {
+    this.scenario = opts.scenario ?? 'mixed'
+    this.tickMs = Math.max(50, opts.tickMs ?? 1_000)
+    this.speed = Math.max(0.1, opts.speed ?? 1)
+  }
+
+  connect(send: (raw: string) => void): MockGatewayConnection {
+    const subscribed = new Set<string>()
+    let closed = false
+
+    const push = (msg: unknown) => {
+      if (closed) return
+      try {
+        send(typeof msg === 'string' ? msg : JSON.stringify(msg))
+      } catch {
+        // ignore
+      }
+    }
+    const state: MockConnectionState = { subscribed, push }
+
+    const subscribe = (mint: string, snapshot: boolean) => {
+      if (!mint || subscribed.has(mint)) return
+      subscribed.add(mint)
+      push({ type: 'subscribed', mint, source: 'mock' })
+      if (snapshot) push(this.simFor(mint).snapshot())
+    }
+
+    this.connections.add(state)
+    if (!this.timer) this.timer = setInterval(() => this.tick(), this.tickMs)
+
+    return {
+      receive: (raw) => {
+        let msg: Record<string, unknown>
+        try {
+          msg = JSON.parse(raw) as Record<string, unknown>
+        } catch {
+          push({ type: 'error', code: 'bad_json', message: 'Invalid JSON' })
+          return
+        }
+        const snapshot = msg.snapshot === true
+        switch (msg.type) {
+          case 'subscribe_token':
+            subscribe(String(msg.mint || ''), snapshot)
+            return
+          case 'subscribe_tokens':
+            for (const mint of Array.isArray(msg.mints) ? msg.mints : []) subscribe(String(mint || ''), snapshot)
+            return
+          case 'unsubscribe_token': {
+            const mint = String(msg.mint || '')
+            if (subscribed.delete(mint)) push({ type: 'unsubscribed', mint })
+            return
+          }
+          default:
+            push({ type: 'error', code: 'unknown_type', message: `Unknown message type: ${String(msg.type)}` })
+        }
+      },
+      close: () => {
+        closed = true
+        subscribed.clear()
+        this.connections.delete(state)
+        if (!this.connections.size && this.timer) {
+          clearInterval(this.timer)
+          this.timer = null
+        }
+      },
+    }
+  }
+
+  private tick() {
+    const subscribers = new Map<string, MockConnectionState[]>()
+    for (const conn of this.connections) {
+      for (const mint of conn.subscribed) {
+        const list = subscribers.get(mint) ?? []
+        list.push(conn)
+        subscribers.set(mint, list)
+      }
+    }
+    for (const [mint, conns] of subscribers) {
+      const raw = JSON.stringify(this.simFor(mint).step(this.speed))
+      for (const conn of conns) conn.push(raw)
+    }
+  }
+
+  private simFor(mint: string): MockTokenSim {
+    let sim = this.sims.get(mint)
+    if (!sim) {
+      sim = new MockTokenSim(mint, this.scenario)
+      this.sims.set(mint, sim)
+    }
+    return sim
+  }
+}
+
+/** In-browser provider: DataGatewayWs talks to a MockGateway through fake sockets. */
+export function createMockGatewaySocketFactory(opts: MockGatewayOptions = {}): WebSocketFactory {
+  const gateway = new MockGateway(opts)
+  return (url) => {
+    let conn: MockGatewayConnection | null = null
+    const socket = new FakeWebSocket(url, {
+      onSend: (data) => conn?.receive(data),
+      onClose: () => conn?.close(),
+    })
+    setTimeout(() => {
+      conn = gateway.connect((raw) => socket.serverMessage(raw))
+      socket.serverOpen()
+    }, 0)
+    return socket.asWebSocket()
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * Decides which mints get a Trading API quote on each polling tick.
+ *
+ * Each mint gets a target refresh interval from its signals (open in the popout, held,
+ * recent volatility) and is scored by how overdue it is. Each tick quotes only the most
+ * overdue mints that fit in the tick budget, so a 999-token watchlist can't flood the socket.
+ * The tick itself stretches when observed quote RTT grows.
+ */
+
+export type QuoteCandidate = {
+  mint: string
+  /** Currently open in the chart popout. */
+  popout?: boolean
+  held?: boolean
+}
+
+export type QuoteScheduleOptions = {
+  /** Tier cadence (`TierGates.quotePollMs`): the fastest any single mint is refreshed. */
+  basePollMs: number
+  /** Observed round-trip times of one quote request (single or batch). */
+  rttP50Ms?: number
+  rttP95Ms?: number
+  /** Mints covered by one round trip when the server supports `quote_batch`. Default: 1. */
+  batchSize?: number
+  /** Per-user rate limit, if known; polling spends at most half of it so trades keep headroom. */
+  rateLimitRps?: number
+}
+
+type MintQuoteState = {
+  lastQuotedAt: number
+  lastPrice?: number
+  /** EWMA of absolute relative price change per quote. */
+  volatility: number
+  recentQuoteTimes: number[]
+}
+
+// How many base intervals each class of mint may go between quotes.
+const POPOUT_INTERVAL_MULT = 1
+const HELD_INTERVAL_MULT = 2
+const WATCHED_INTERVAL_MULT = 4
+const WATCHED_MAX_INTERVAL_MULT = 16
+
+const POLLING_RATE_LIMIT_SHARE = 0.5
+
+// A 2% move between quotes counts as "volatile" and pulls a watched mint toward the held cadence.
+const VOLATILITY_REFERENCE = 0.02
+const VOLATILITY_ALPHA = 0.3
+const RECENT_QUOTES_KEPT = 6
+
+export class QuoteScheduler {
+  private readonly mints = new Map<string, MintQuoteState>()
+
+  /** Picks the mints to quote this tick, most overdue first. */
+  next(candidates: QuoteCandidate[], opts: QuoteScheduleOptions, now: number = Date.now()): string[] {
+    const seen = new Set<string>()
+    const scored: Array<{ mint: string; score: number }> = []
+    for (const c of candidates) {
+      if (!c.mint || seen.has(c.mint)) continue
+      seen.add(c.mint)
+      const state = this.mints.get(c.mint)
+      const score = state ? (now - state.lastQuotedAt) / this.targetIntervalMs(c, opts.basePollMs) : Number.POSITIVE_INFINITY
+      if (score >= 1) scored.push({ mint: c.mint, score })
+    }
+
+    // Forget mints that are no longer watched or held.
+    for (const mint of Array.from(this.mints.keys())) {
+      if (!seen.has(mint)) this.mints.delete(mint)
+    }
+
+    scored.sort((a, b) => b.score - a.score)
+    return scored.slice(0, this.perTickBudget(opts)).map((x) => x.mint)
+  }
+
+  /** Delay before the next tick: the tier cadence, stretched when quotes take longer than that. */
+  tickDelayMs(opts: QuoteScheduleOptions): number {
+    const rtt = opts.rttP95Ms ?? opts.rttP50Ms ?? 0
+    return Math.max(opts.basePollMs, Math.round(rtt * 1.5))
+  }
+
+  /** Record a quote attempt. `price` is omitted when the quote failed. */
+  recordQuote(mint: string, price?: number, now: number = Date.now()) {
+    const state = this.mints.get(mint) ?? { lastQuotedAt: 0, volatility: VOLATILITY_REFERENCE, recentQuoteTimes: [] }
+    if (typeof price === 'number' && Number.isFinite(price) && price > 0) {
+      if (typeof state.lastPrice === 'number' && state.lastPrice > 0) {
+        const change = Math.abs(price - state.lastPrice) / state.lastPrice
+        state.volatility = state.volatility * (1 - VOLATILITY_ALPHA) + Math.min(change, 1) * VOLATILITY_ALPHA
+      }
+      state.lastPrice = price
+    }
+    state.lastQuotedAt = now
+    state.recentQuoteTimes.push(now)
+    if (state.recentQuoteTimes.length > RECENT_QUOTES_KEPT) state.recentQuoteTimes.shift()
+    this.mints.set(mint, state)
+  }
+
+  /** Mean interval between the last few quotes of `mint`; undefined until there are two. */
+  effectiveIntervalMs(mint: string): number | undefined {
+    const times = this.mints.get(mint)?.recentQuoteTimes
+    if (!times || times.length < 2) return undefined
+    return Math.round((times[times.length - 1] - times[0]) / (times.length - 1))
+  }
+
+  private targetIntervalMs(c: QuoteCandidate, basePollMs: number): number {
+    if (c.popout) return basePollMs * POPOUT_INTERVAL_MULT
+    if (c.held) return basePollMs * HELD_INTERVAL_MULT
+
+    // Inverse to volatility: at the reference move size a watched mint gets WATCHED_INTERVAL_MULT;
+    // quiet ones drift out to WATCHED_MAX_INTERVAL_MULT, hot ones come in to the held cadence.
+    const volatility = this.mints.get(c.mint)?.volatility ?? VOLATILITY_REFERENCE
+    const mult = (WATCHED_INTERVAL_MULT * VOLATILITY_REFERENCE) / Math.max(volatility, 1e-6)
+    return basePollMs * Math.min(WATCHED_MAX_INTERVAL_MULT, Math.max(HELD_INTERVAL_MULT, mult))
+  }
+
+  // Requests run sequentially, so a tick can only fit as many as RTT allows within the tier cadence.
+  private perTickBudget(opts: QuoteScheduleOptions): number {
+    const rtt = Math.max(50, opts.rttP50Ms ?? 250)
+    const batchSize = Math.max(1, opts.batchSize ?? 1)
+    const tickMs = this.tickDelayMs(opts)
+    const requests = Math.max(1, Math.floor(tickMs / rtt))
+    const allowedRequests = opts.rateLimitRps
+      ? Math.max(1, Math.floor((opts.rateLimitRps * POLLING_RATE_LIMIT_SHARE * tickMs) / 1000))
+      : requests
+    return Math.min(requests, allowedRequests) * batchSize
+  }
+}
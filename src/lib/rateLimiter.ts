@@ -0,0 +1,206 @@
+/**
+ * Client-side token bucket for the Trading API's per-user rate limit (`userRateLimit` in /healthz).
+ *
+ * One limiter is shared by every TradingWs instance in the tab, so the popout chart, watchlist
+ * polling and trades all draw from the same budget the server enforces.
+ *
+ * Lanes are served in strict priority order, and `background` work may not spend the last
+ * `reserve` tokens, so a build/submit never queues behind quote polling.
+ */
+
+export type RateLimitLane = 'critical' | 'interactive' | 'background'
+
+export type RateLimitConfig = {
+  rps: number
+  burst: number
+}
+
+export type RateLimiterStats = {
+  enabled: boolean
+  rps: number
+  burst: number
+  tokens: number
+  queued: Record<RateLimitLane, number>
+  /** Requests that had to wait for a token. */
+  throttledCount: number
+  /** Server-side rejections reported through `penalize()`. */
+  penaltyCount: number
+}
+
+export type RateLimitAcquireOptions = {
+  signal?: AbortSignal
+  /** Give up waiting after this long; rejects with code `timeout`. */
+  timeoutMs?: number
+}
+
+export class RateLimiterError extends Error {
+  readonly code: 'aborted' | 'timeout'
+
+  constructor(message: string, code: 'aborted' | 'timeout') {
+    super(message)
+    this.name = 'RateLimiterError'
+    this.code = code
+  }
+}
+
+type Waiter = {
+  lane: RateLimitLane
+  seq: number
+  resolve: () => void
+  reject: (err: Error) => void
+  cleanup: () => void
+}
+
+const LANE_RANK: Record<RateLimitLane, number> = { critical: 0, interactive: 1, background: 2 }
+
+export class TokenBucketRateLimiter {
+  private config: RateLimitConfig | null = null
+  private tokens = 0
+  private lastRefillAt = 0
+  private readonly waiters: Waiter[] = []
+  private waiterSeq = 0
+  private drainTimer: ReturnType<typeof setTimeout> | null = null
+  private throttledCount = 0
+  private penaltyCount = 0
+
+  constructor(config?: RateLimitConfig | null) {
+    if (config) this.configure(config)
+  }
+
+  /** True once limits are known. Until then (or after `configure(null)`) every acquire passes straight through. */
+  get isConfigured() {
+    return this.config !== null
+  }
+
+  configure(config: RateLimitConfig | null) {
+    const next =
+      config && Number.isFinite(config.rps) && config.rps > 0
+        ? { rps: config.rps, burst: Math.max(1, Math.floor(Number.isFinite(config.burst) ? config.burst : config.rps)) }
+        : null
+    const prev = this.config
+    this.config = next
+    if (next) {
+      // Start full on first configure; keep the current level (capped) when limits change.
+      this.tokens = prev ? Math.min(this.tokens, next.burst) : next.burst
+      this.lastRefillAt = Date.now()
+    }
+    this.drain()
+  }
+
+  /** Resolves once a token is available for `lane`. */
+  acquire(lane: RateLimitLane, opts?: RateLimitAcquireOptions): Promise<void> {
+    if (opts?.signal?.aborted) return Promise.reject(new RateLimiterError('Rate limit wait aborted', 'aborted'))
+    if (!this.config) return Promise.resolve()
+    if (this.waiters.length === 0 && this.tryTake(lane)) return Promise.resolve()
+
+    this.throttledCount += 1
+    return new Promise<void>((resolve, reject) => {
+      const signal = opts?.signal
+      let timer: ReturnType<typeof setTimeout> | null = null
+      const onAbort = () => {
+        this.removeWaiter(waiter)
+        reject(new RateLimiterError('Rate limit wait aborted', 'aborted'))
+      }
+      const waiter: Waiter = {
+        lane,
+        seq: (this.waiterSeq += 1),
+        resolve,
+        reject,
+        cleanup: () => {
+          if (timer) clearTimeout(timer)
+          signal?.removeEventListener('abort', onAbort)
+        },
+      }
+      if (opts?.timeoutMs !== undefined) {
+        timer = setTimeout(() => {
+          this.removeWaiter(waiter)
+          reject(new RateLimiterError('Rate limit wait timed out', 'timeout'))
+        }, opts.timeoutMs)
+      }
+      signal?.addEventListener('abort', onAbort, { once: true })
+      this.waiters.push(waiter)
+      this.waiters.sort((a, b) => LANE_RANK[a.lane] - LANE_RANK[b.lane] || a.seq - b.seq)
+      this.drain()
+    })
+  }
+
+  /** Non-blocking variant for optional traffic (e.g. pings): takes a token only if one is free right now. */
+  tryAcquire(lane: RateLimitLane): boolean {
+    if (!this.config) return true
+    if (this.waiters.length > 0) return false
+    return this.tryTake(lane)
+  }
+
+  /** The server rejected us anyway (clock drift, other tabs, shared IPs): empty the bucket so it refills at `rps`. */
+  penalize() {
+    this.penaltyCount += 1
+    if (!this.config) return
+    this.refill()
+    this.tokens = 0
+  }
+
+  getStats(): RateLimiterStats {
+    this.refill()
+    const queued: Record<RateLimitLane, number> = { critical: 0, interactive: 0, background: 0 }
+    for (const w of this.waiters) queued[w.lane] += 1
+    return {
+      enabled: this.config !== null,
+      rps: this.config?.rps ?? 0,
+      burst: this.config?.burst ?? 0,
+      tokens: Math.floor(this.tokens * 10) / 10,
+      queued,
+      throttledCount: this.throttledCount,
+      penaltyCount: this.penaltyCount,
+    }
+  }
+
+  private get reserve() {
+    return this.config && this.config.burst >= 2 ? 1 : 0
+  }
+
+  private tryTake(lane: RateLimitLane): boolean {
+    this.refill()
+    const needed = lane === 'background' ? 1 + this.reserve : 1
+    if (this.tokens < needed) return false
+    this.tokens -= 1
+    return true
+  }
+
+  private refill() {
+    if (!this.config) return
+    const now = Date.now()
+    const elapsed = Math.max(0, now - this.lastRefillAt)
+    this.lastRefillAt = now
+    this.tokens = Math.min(this.config.burst, this.tokens + (elapsed * this.config.rps) / 1000)
+  }
+
+  private drain() {
+    if (this.drainTimer) {
+      clearTimeout(this.drainTimer)
+      this.drainTimer = null
+    }
+
+    while (this.waiters.length > 0) {
+      const head = this.waiters[0]
+      if (this.config && !this.tryTake(head.lane)) break
+      this.waiters.shift()
+      head.cleanup()
+      head.resolve()
+    }
+
+    if (this.waiters.length === 0 || !this.config) return
+    const needed = this.waiters[0].lane === 'background' ? 1 + this.reserve : 1
+    const waitMs = Math.max(1, Math.ceil(((needed - this.tokens) * 1000) / this.config.rps))
+    this.drainTimer = setTimeout(() => {
+      this.drainTimer = null
+      this.drain()
+    }, waitMs)
+  }
+
+  private removeWaiter(waiter: Waiter) {
+    const idx = this.waiters.indexOf(waiter)
+    if (idx >= 0) this.waiters.splice(idx, 1)
+    waiter.cleanup()
+    this.drain()
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * Composite 0–100 token risk score from Data Gateway metrics plus the rug signals in `rug.ts`.
+ *
+ * Each factor maps its raw value onto 0 (fine) … 1 (worst) with a linear ramp; the score is the
+ * weighted mean of the factors that have data, scaled to 100. A rugged token always scores 100.
+ * Weights are per wallet, so traders can tune what "risky" means to them.
+ */
+
+import { isTokenRugged, type RugCheckToken } from './rug'
+import type { TokenMetricsSnapshot } from './dataGatewayWs'
+
+export const RISK_FACTORS = ['top10Pct', 'devPct', 'sniperPct', 'insiderPct', 'curvePct', 'holders'] as const
+
+export type RiskFactor = (typeof RISK_FACTORS)[number]
+
+export type RiskWeights = Record<RiskFactor, number>
+
+export type RiskLevel = 'low' | 'medium' | 'high' | 'extreme'
+
+export type RiskInputs = Partial<Record<RiskFactor, number>>
+
+export type RiskContribution = {
+  factor: RiskFactor
+  value: number
+  /** 0 (fine) … 1 (worst) for this factor alone. */
+  risk: number
+  weight: number
+  /** Share of the final score, in score points. */
+  points: number
+}
+
+export type TokenRiskScore = {
+  score: number
+  level: RiskLevel
+  rugged: boolean
+  /** Factors that had data, largest contribution first. */
+  breakdown: RiskContribution[]
+  /** Factors with a non-zero weight but no data yet. */
+  missing: RiskFactor[]
+}
+
+export type RiskSettings = {
+  weights: RiskWeights
+  /** Hide feed tokens scoring at or above this; null shows everything. */
+  feedMaxScore: number | null
+}
+
+export const DEFAULT_RISK_WEIGHTS: RiskWeights = {
+  top10Pct: 3,
+  devPct: 2,
+  sniperPct: 2,
+  insiderPct: 2,
+  curvePct: 1,
+  holders: 1,
+}
+
+export const DEFAULT_RISK_SETTINGS: RiskSettings = { weights: DEFAULT_RISK_WEIGHTS, feedMaxScore: null }
+
+export const RISK_FACTOR_LABELS: Record<RiskFactor, string> = {
+  top10Pct: 'Top 10 holders',
+  devPct: 'Dev holdings',
+  sniperPct: 'Snipers',
+  insiderPct: 'Insiders',
+  curvePct: 'Bonding curve',
+  holders: 'Holders',
+}
+
+// [value at risk 0, value at risk 1]; reversed pairs mean "lower is riskier".
+const RAMPS: Record<RiskFactor, [number, number]> = {
+  top10Pct: [20, 60],
+  devPct: [2, 15],
+  sniperPct: [5, 30],
+  insiderPct: [5, 30],
+  curvePct: [90, 10],
+  holders: [300, 20],
+}
+
+function ramp(value: number, [safe, worst]: [number, number]) {
+  const t = (value - safe) / (worst - safe)
+  return Math.min(1, Math.max(0, t))
+}
+
+export function riskLevel(score: number): RiskLevel {
+  if (score >= 80) return 'extreme'
+  if (score >= 60) return 'high'
+  if (score >= 35) return 'medium'
+  return 'low'
+}
+
+export function riskInputsFromSnapshot(snapshot: TokenMetricsSnapshot | null | undefined): RiskInputs {
+  const out: RiskInputs = {}
+  if (!snapshot) return out
+  for (const factor of RISK_FACTORS) {
+    const v = snapshot.fields[factor]?.value
+    if (typeof v === 'number' && Number.isFinite(v)) out[factor] = v
+  }
+  return out
+}
+
+/** Undefined when nothing is known yet (no metrics and no rug signal). */
+export function computeRiskScore(
+  inputs: RiskInputs,
+  rug: RugCheckToken | null,
+  weights: RiskWeights = DEFAULT_RISK_WEIGHTS,
+): TokenRiskScore | undefined {
+  const rugged = rug ? isTokenRugged(rug) : false
+  const breakdown: RiskContribution[] = []
+  const missing: RiskFactor[] = []
+  let weightSum = 0
+
+  for (const factor of RISK_FACTORS) {
+    const weight = Math.max(0, weights[factor] ?? 0)
+    if (!weight) continue
+    const value = inputs[factor]
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      missing.push(factor)
+      continue
+    }
+    weightSum += weight
+    breakdown.push({ factor, value, risk: ramp(value, RAMPS[factor]), weight, points: 0 })
+  }
+
+  if (!breakdown.length && !rugged) return undefined
+
+  let score = 0
+  for (const c of breakdown) {
+    c.points = (c.risk * c.weight * 100) / weightSum
+    score += c.points
+  }
+  if (rugged) score = 100
+  breakdown.sort((a, b) => b.points - a.points)
+
+  const rounded = Math.round(score)
+  return { score: rounded, level: riskLevel(rounded), rugged, breakdown, missing }
+}
+
+/** Multi-line explanation for a badge tooltip. */
+export function describeRiskScore(risk: TokenRiskScore): string {
+  const lines = [`Risk ${risk.score}/100 (${risk.level})`]
+  if (risk.rugged) lines.push('Rugged: liquidity removed or no route')
+  for (const c of risk.breakdown) {
+    const value = c.factor === 'holders' ? String(Math.round(c.value)) : `${Math.round(c.value * 10) / 10}%`
+    lines.push(`${RISK_FACTOR_LABELS[c.factor]} ${value}: +${Math.round(c.points)}`)
+  }
+  if (risk.missing.length) lines.push(`No data: ${risk.missing.map((f) => RISK_FACTOR_LABELS[f]).join(', ')}`)
+  return lines.join('\n')
+}
+
+function storageKey(wallet: string) {
+  return `dequanswap.riskSettings.${wallet}`
+}
+
+export function loadRiskSettings(wallet: string): RiskSettings {
+  try {
+    const raw = localStorage.getItem(storageKey(wallet))
+    if (!raw) return DEFAULT_RISK_SETTINGS
+    const parsed = JSON.parse(raw) as Record<string, unknown> | null
+    if (!parsed || typeof parsed !== 'object') return DEFAULT_RISK_SETTINGS
+    const rawWeights = (parsed.weights && typeof parsed.weights === 'object' ? parsed.weights : {}) as Record<string, unknown>
+    const weights = { ...DEFAULT_RISK_WEIGHTS }
+    for (const factor of RISK_FACTORS) {
+      const w = rawWeights[factor]
+      if (typeof w === 'number' && Number.isFinite(w) && w >= 0) weights[factor] = w
+    }
+    const max = parsed.feedMaxScore
+    return { weights, feedMaxScore: typeof max === 'number' && max > 0 && max <= 100 ? max : null }
+  } catch {
+    return DEFAULT_RISK_SETTINGS
+  }
+}
+
+export function saveRiskSettings(wallet: string, settings: RiskSettings) {
+  localStorage.setItem(storageKey(wallet), JSON.stringify(settings))
+}
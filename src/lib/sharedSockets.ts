@@ -0,0 +1,512 @@
+/**
+ * Cross-tab sharing of streaming sockets.
+ *
+ * Every dequanSwap tab runs its own DataGatewayWs (and SolanaTrackerWs), but only one tab, the
+ * leader (elected with the Web Locks API), holds the real upstream sockets. The other tabs'
+ * clients get virtual sockets whose frames travel over a BroadcastChannel. The leader merges
+ * subscriptions from every tab, so one upstream subscription serves them all. It routes each update
+ * only to the tabs that asked for it.
+ *
+ * Clients keep all their own logic (snapshots, history, backoff): when the upstream or the
+ * leader goes away, their sockets close and they reconnect through whoever leads next.
+ *
+ * TradingWs is not shared: its auth and requests belong to one tab's wallet session.
+ */
+
+import { FakeWebSocket } from './fakeWebSocket'
+import type { WebSocketFactory, WsRecordSource } from './wsRecorder'
+
+/** How a stream's wire protocol maps onto shared subscriptions. */
+export type SharedSocketProtocol = {
+  /** Subscription change carried by a client frame; null for frames that pass straight through. */
+  classify(raw: string): { op: 'subscribe' | 'unsubscribe'; keys: string[] } | null
+  /** Upstream frames that subscribe `keys` (none of which any tab held before). */
+  subscribeFrames(keys: string[]): string[]
+  /** Upstream frames that unsubscribe `keys` (which no tab holds any more). */
+  unsubscribeFrames(keys: string[]): string[]
+  /**
+   * Forward subscribe frames even for keys other clients hold, so the upstream acks them (and
+   * replays its snapshot) for the new holder, and a client's re-subscribe still reaches it.
+   */
+  forwardDuplicateSubscribes?: boolean
+  /** Subscription key an upstream frame belongs to; null (or no router) sends it to every client. */
+  routeKey?(raw: string): string | null
+}
+
+export type SharedSocketSource = {
+  protocol: SharedSocketProtocol
+  /** Opens the real upstream socket (in the leader tab). */
+  factory: WebSocketFactory
+}
+
+/** `pending` until this tab opens its first shared socket; `standalone` when the browser lacks BroadcastChannel or Web Locks. */
+export type SharedSocketsRole = 'pending' | 'leader' | 'follower' | 'standalone'
+
+export type SharedSocketsOptions = {
+  sources: Partial<Record<WsRecordSource, SharedSocketSource>>
+  channelName?: string
+}
+
+type ChannelMessage =
+  | { t: 'open'; from: string; conn: string; source: WsRecordSource; url: string }
+  | { t: 'send'; from: string; conn: string; data: string }
+  | { t: 'close'; from: string; conn: string }
+  | { t: 'alive'; from: string }
+  | { t: 'bye'; from: string }
+  | { t: 'leader'; from: string }
+  | { t: 'opened'; from: string; conn: string }
+  | { t: 'msg'; from: string; conns: string[]; data: string }
+  | { t: 'closed'; from: string; conn: string; code: number; reason: string }
+
+type HubSink = {
+  opened(ids: string[]): void
+  message(ids: string[], data: string): void
+  closed(ids: string[], code: number, reason: string): void
+}
+
+const LOCK_NAME = 'dequanswap.sharedSockets.leader'
+const ALIVE_INTERVAL_MS = 5_000
+const TAB_TIMEOUT_MS = 15_000
+const REMOTE_OPEN_TIMEOUT_MS = 5_000
+
+/** Leader-side: one upstream socket for one source, shared by every tab's clients. */
+class SharedUpstream {
+  private readonly source: SharedSocketSource
+  private readonly sink: HubSink
+  private ws: WebSocket | null = null
+  private readonly clients = new Set<string>()
+  private readonly holders = new Map<string, Set<string>>()
+  private readonly keysByClient = new Map<string, Set<string>>()
+
+  constructor(source: SharedSocketSource, sink: HubSink) {
+    this.source = source
+    this.sink = sink
+  }
+
+  attach(id: string, url: string) {
+    this.clients.add(id)
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      this.sink.opened([id])
+      return
+    }
+    if (!this.ws) this.openUpstream(url)
+  }
+
+  detach(id: string) {
+    if (!this.clients.delete(id)) return
+    const orphaned: string[] = []
+    for (const key of this.keysByClient.get(id) ?? []) {
+      const set = this.holders.get(key)
+      set?.delete(id)
+      if (set && set.size === 0) {
+        this.holders.delete(key)
+        orphaned.push(key)
+      }
+    }
+    this.keysByClient.delete(id)
+    if (this.clients.size === 0) {
+      this.closeUpstream()
+      return
+    }
+    if (orphaned.length) this.sendUpstream(this.source.protocol.unsubscribeFrames(orphaned))
+  }
+
+  send(id: string, raw: string) {
+    if (!this.clients.has(id)) return
+    const protocol = this.source.protocol
+    const change = protocol.classify(raw)
+    if (!change) {
+      this.sendUpstream([raw])
+      return
+    }
+
+    const own = this.keysByClient.get(id) ?? new Set<string>()
+    this.keysByClient.set(id, own)
+    const changed: string[] = []
+    for (const key of change.keys) {
+      if (change.op === 'subscribe') {
+        const set = this.holders.get(key) ?? new Set<string>()
+        if (set.size === 0) changed.push(key)
+        set.add(id)
+        this.holders.set(key, set)
+        own.add(key)
+      } else {
+        const set = this.holders.get(key)
+        own.delete(key)
+        if (!set?.delete(id)) continue
+        if (set.size === 0) {
+          this.holders.delete(key)
+          changed.push(key)
+        }
+      }
+    }
+
+    if (change.op === 'subscribe') {
+      if (protocol.forwardDuplicateSubscribes) this.sendUpstream([raw])
+      else if (changed.length) this.sendUpstream(protocol.subscribeFrames(changed))
+    } else if (changed.length) {
+      this.sendUpstream(protocol.unsubscribeFrames(changed))
+    }
+  }
+
+  private openUpstream(url: string) {
+    let ws: WebSocket
+    try {
+      ws = this.source.factory(url)
+    } catch {
+      this.failAll(1006, 'shared upstream: connect failed')
+      return
+    }
+    this.ws = ws
+    ws.addEventListener('open', () => {
+      if (this.ws === ws) this.sink.opened(Array.from(this.clients))
+    })
+    ws.addEventListener('message', (event) => {
+      if (this.ws !== ws) return
+      const data = String(event.data)
+      const key = this.source.protocol.routeKey?.(data) ?? null
+      const targets = key === null ? Array.from(this.clients) : Array.from(this.holders.get(key) ?? [])
+      if (targets.length) this.sink.message(targets, data)
+    })
+    ws.addEventListener('close', (evt) => {
+      if (this.ws !== ws) return
+      this.ws = null
+      this.failAll(evt.code, evt.reason)
+    })
+  }
+
+  private failAll(code: number, reason: string) {
+    const ids = Array.from(this.clients)
+    this.clients.clear()
+    this.holders.clear()
+    this.keysByClient.clear()
+    if (ids.length) this.sink.closed(ids, code, reason)
+  }
+
+  private closeUpstream() {
+    const ws = this.ws
+    this.ws = null
+    try {
+      ws?.close()
+    } catch {
+      // ignore
+    }
+  }
+
+  private sendUpstream(frames: string[]) {
+    if (this.ws?.readyState !== WebSocket.OPEN) return
+    for (const frame of frames) {
+      try {
+        this.ws.send(frame)
+      } catch {
+        // ignore
+      }
+    }
+  }
+}
+
+export class SharedSockets {
+  private readonly sources: Partial<Record<WsRecordSource, SharedSocketSource>>
+  private readonly tabId = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`
+  private readonly channelName: string
+  private channel: BroadcastChannel | null = null
+  private currentRole: SharedSocketsRole = 'pending'
+  private nextConn = 1
+
+  // This tab's client sockets, by connection id.
+  private readonly local = new Map<string, FakeWebSocket>()
+  // Local sockets attached through another tab's leader.
+  private readonly remote = new Set<string>()
+  // Sockets created before the role was known; attached once it is.
+  private readonly pending: Array<() => void> = []
+  private readonly roleListeners = new Set<(role: SharedSocketsRole) => void>()
+
+  // Leader state.
+  private readonly upstreams = new Map<WsRecordSource, SharedUpstream>()
+  private readonly connSource = new Map<string, WsRecordSource>()
+  private readonly tabLastSeen = new Map<string, number>()
+
+  constructor(opts: SharedSocketsOptions) {
+    this.sources = opts.sources
+    this.channelName = opts.channelName ?? 'dequanswap.sharedSockets'
+  }
+
+  get role() {
+    return this.currentRole
+  }
+
+  onRoleChange(listener: (role: SharedSocketsRole) => void): () => void {
+    this.roleListeners.add(listener)
+    return () => {
+      this.roleListeners.delete(listener)
+    }
+  }
+
+  /** `webSocketFactory` for a client of `source`; sockets go through the leader tab when sharing is available. */
+  factory(source: WsRecordSource): WebSocketFactory {
+    return (url) => {
+      const shared = this.sources[source]
+      if (!shared) throw new Error(`SharedSockets: unknown source ${source}`)
+      this.start()
+      if (this.currentRole === 'standalone') return shared.factory(url)
+
+      const conn = `${this.tabId}:${this.nextConn++}`
+      const socket = new FakeWebSocket(url, {
+        onSend: (data) => this.clientSend(conn, data),
+        onClose: () => this.clientClose(conn),
+      })
+      this.local.set(conn, socket)
+      const attach = () => this.attach(conn, source, url)
+      if (this.currentRole === 'pending') this.pending.push(attach)
+      // Like a real socket, never open before the caller has added its listeners (the upstream
+      // may already be open in the leader tab).
+      else window.setTimeout(attach, 0)
+      return socket.asWebSocket()
+    }
+  }
+
+  // Joins the election on first use, so a tab that never streams never leads (and constructing has no side effects).
+  private start() {
+    if (this.currentRole !== 'pending' || this.channel) return
+    const supported = typeof BroadcastChannel !== 'undefined' && 'locks' in navigator
+    if (!supported) {
+      this.setRole('standalone')
+      return
+    }
+
+    this.channel = new BroadcastChannel(this.channelName)
+    this.channel.addEventListener('message', (event) => this.onChannelMessage(event.data as ChannelMessage))
+    window.setInterval(() => {
+      if (this.currentRole === 'follower') this.post({ t: 'alive', from: this.tabId })
+    }, ALIVE_INTERVAL_MS)
+    window.addEventListener('pagehide', () => this.post({ t: 'bye', from: this.tabId }))
+
+    void navigator.locks.request(LOCK_NAME, { ifAvailable: true }, (lock) => {
+      if (lock) return this.lead()
+      this.setRole('follower')
+      void navigator.locks.request(LOCK_NAME, () => this.lead())
+      return undefined
+    })
+  }
+
+  private attach(conn: string, source: WsRecordSource, url: string) {
+    const socket = this.local.get(conn)
+    if (!socket || socket.readyState === WebSocket.CLOSED) return
+    if (this.currentRole === 'leader') {
+      this.leaderAttach(conn, source, url)
+      return
+    }
+    this.remote.add(conn)
+    this.post({ t: 'open', from: this.tabId, conn, source, url })
+    window.setTimeout(() => {
+      if (socket.readyState === WebSocket.CONNECTING) socket.serverClose(1006, 'shared socket: no leader')
+    }, REMOTE_OPEN_TIMEOUT_MS)
+  }
+
+  private clientSend(conn: string, data: string) {
+    if (this.currentRole === 'leader') this.leaderSend(conn, data)
+    else this.post({ t: 'send', from: this.tabId, conn, data })
+  }
+
+  private clientClose(conn: string) {
+    this.local.delete(conn)
+    this.remote.delete(conn)
+    if (this.currentRole === 'leader') this.leaderDetach(conn)
+    else this.post({ t: 'close', from: this.tabId, conn })
+  }
+
+  private lead(): Promise<void> {
+    // Sockets that were talking to the previous leader reconnect through this tab; ones still
+    // waiting for the election never left it and attach below.
+    this.closeRemote(1012, 'shared socket: leader changed')
+    this.setRole('leader')
+    this.post({ t: 'leader', from: this.tabId })
+    window.setInterval(() => this.pruneTabs(), ALIVE_INTERVAL_MS)
+    // Held until the tab goes away; the browser then hands the lock to the next tab.
+    return new Promise<void>(() => {})
+  }
+
+  private setRole(role: SharedSocketsRole) {
+    this.currentRole = role
+    for (const attach of this.pending.splice(0)) attach()
+    for (const fn of this.roleListeners) {
+      try {
+        fn(role)
+      } catch {
+        // ignore
+      }
+    }
+  }
+
+  private closeRemote(code: number, reason: string) {
+    for (const conn of Array.from(this.remote)) this.local.get(conn)?.serverClose(code, reason)
+  }
+
+  private post(msg: ChannelMessage) {
+    try {
+      this.channel?.postMessage(msg)
+    } catch {
+      // ignore
+    }
+  }
+
+  private onChannelMessage(msg: ChannelMessage) {
+    if (!msg || typeof msg !== 'object' || msg.from === this.tabId) return
+
+    switch (msg.t) {
+      case 'leader':
+        if (this.currentRole === 'follower') this.closeRemote(1012, 'shared socket: leader changed')
+        return
+      case 'opened':
+        this.local.get(msg.conn)?.serverOpen()
+        return
+      case 'msg':
+        for (const conn of msg.conns) this.local.get(conn)?.serverMessage(msg.data)
+        return
+      case 'closed':
+        this.local.get(msg.conn)?.serverClose(msg.code, msg.reason)
+        return
+    }
+
+    if (this.currentRole !== 'leader') return
+    this.tabLastSeen.set(msg.from, Date.now())
+    switch (msg.t) {
+      case 'open':
+        this.leaderAttach(msg.conn, msg.source, msg.url)
+        return
+      case 'send':
+        this.leaderSend(msg.conn, msg.data)
+        return
+      case 'close':
+        this.leaderDetach(msg.conn)
+        return
+      case 'bye':
+        this.dropTab(msg.from)
+        return
+    }
+  }
+
+  private leaderAttach(conn: string, source: WsRecordSource, url: string) {
+    let upstream = this.upstreams.get(source)
+    if (!upstream) {
+      const shared = this.sources[source]
+      if (!shared) {
+        this.deliverClosed([conn], 1011, `shared socket: unknown source ${source}`)
+        return
+      }
+      upstream = new SharedUpstream(shared, {
+        opened: (ids) => this.deliverOpened(ids),
+        message: (ids, data) => this.deliverMessage(ids, data),
+        closed: (ids, code, reason) => {
+          for (const id of ids) this.connSource.delete(id)
+          this.deliverClosed(ids, code, reason)
+        },
+      })
+      this.upstreams.set(source, upstream)
+    }
+    this.connSource.set(conn, source)
+    upstream.attach(conn, url)
+  }
+
+  private leaderSend(conn: string, data: string) {
+    const source = this.connSource.get(conn)
+    if (source) this.upstreams.get(source)?.send(conn, data)
+  }
+
+  private leaderDetach(conn: string) {
+    const source = this.connSource.get(conn)
+    this.connSource.delete(conn)
+    if (source) this.upstreams.get(source)?.detach(conn)
+  }
+
+  private dropTab(tab: string) {
+    this.tabLastSeen.delete(tab)
+    for (const conn of Array.from(this.connSource.keys())) {
+      if (conn.startsWith(`${tab}:`)) this.leaderDetach(conn)
+    }
+  }
+
+  private pruneTabs() {
+    const now = Date.now()
+    for (const [tab, seen] of this.tabLastSeen) {
+      if (now - seen > TAB_TIMEOUT_MS) this.dropTab(tab)
+    }
+  }
+
+  private isLocal(conn: string) {
+    return conn.startsWith(`${this.tabId}:`)
+  }
+
+  private deliverOpened(ids: string[]) {
+    for (const id of ids) {
+      if (this.isLocal(id)) this.local.get(id)?.serverOpen()
+      else this.post({ t: 'opened', from: this.tabId, conn: id })
+    }
+  }
+
+  private deliverMessage(ids: string[], data: string) {
+    const remote: string[] = []
+    for (const id of ids) {
+      if (this.isLocal(id)) this.local.get(id)?.serverMessage(data)
+      else remote.push(id)
+    }
+    if (remote.length) this.post({ t: 'msg', from: this.tabId, conns: remote, data })
+  }
+
+  private deliverClosed(ids: string[], code: number, reason: string) {
+    for (const id of ids) {
+      if (this.isLocal(id)) this.local.get(id)?.serverClose(code, reason)
+      else this.post({ t: 'closed', from: this.tabId, conn: id, code, reason })
+    }
+  }
+}
+
+function parseFrame(raw: string): Record<string, unknown> | null {
+  try {
+    const parsed = JSON.parse(raw) as unknown
+    return parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : null
+  } catch {
+    return null
+  }
+}
+
+/** Data Gateway: mints are the keys. Subscribes are always forwarded so each tab gets its snapshot. */
+export const dataGatewaySharedProtocol: SharedSocketProtocol = {
+  classify(raw) {
+    const msg = parseFrame(raw)
+    if (!msg) return null
+    if (msg.type === 'subscribe_token' && typeof msg.mint === 'string') return { op: 'subscribe', keys: [msg.mint] }
+    if (msg.type === 'subscribe_tokens' && Array.isArray(msg.mints)) {
+      return { op: 'subscribe', keys: msg.mints.filter((m): m is string => typeof m === 'string') }
+    }
+    if (msg.type === 'unsubscribe_token' && typeof msg.mint === 'string') return { op: 'unsubscribe', keys: [msg.mint] }
+    return null
+  },
+  subscribeFrames: (keys) => keys.map((mint) => JSON.stringify({ type: 'subscribe_token', mint, snapshot: true })),
+  unsubscribeFrames: (keys) => keys.map((mint) => JSON.stringify({ type: 'unsubscribe_token', mint })),
+  forwardDuplicateSubscribes: true,
+  routeKey(raw) {
+    const msg = parseFrame(raw)
+    // Errors and anything without a mint go to everyone.
+    return msg && msg.type !== 'error' && typeof msg.mint === 'string' && msg.mint ? msg.mint : null
+  },
+}
+
+/**
+ * SolanaTracker Datastream: rooms are the keys. Incoming `room` names can differ from the joined
+ * one, so updates go to every client and SolanaTrackerWs filters by its own room listeners.
+ * Every `join` goes upstream: late joiners need their `joined` ack, and SolanaTrackerWs rejoins
+ * rooms that went silent even while other clients hold them.
+ */
+export const solanaTrackerSharedProtocol: SharedSocketProtocol = {
+  classify(raw) {
+    const msg = parseFrame(raw)
+    if (!msg || typeof msg.room !== 'string' || !msg.room) return null
+    if (msg.type === 'join') return { op: 'subscribe', keys: [msg.room] }
+    if (msg.type === 'leave') return { op: 'unsubscribe', keys: [msg.room] }
+    return null
+  },
+  subscribeFrames: (keys) => keys.map((room) => JSON.stringify({ type: 'join', room })),
+  unsubscribeFrames: (keys) => keys.map((room) => JSON.stringify({ type: 'leave', room })),
+  forwardDuplicateSubscribes: true,
+}
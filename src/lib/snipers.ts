@@ -0,0 +1,101 @@
+/**
+ * Wallets we have seen sniping launches, remembered across tokens and sessions.
+ *
+ * A buy that lands within `SNIPE_WINDOW_MS` of a token's detection counts as a snipe. Nothing
+ * upstream labels snipers, so the registry only knows wallets the trade streams showed us;
+ * it grows as more fresh tokens are opened.
+ */
+
+import type { TradeEvent } from './solanaTrackerRooms'
+
+export const SNIPE_WINDOW_MS = 15_000
+
+const MAX_KNOWN_SNIPERS = 2_000
+const MAX_MINTS_PER_SNIPER = 20
+
+export type KnownSniper = {
+  /** Tokens this wallet sniped, most recent last. */
+  mints: string[]
+  lastAt: number
+}
+
+export type KnownSnipers = Record<string, KnownSniper>
+
+const STORAGE_KEY = 'dequanswap.knownSnipers'
+
+export function isSnipeBuy(trade: TradeEvent, launchedAt: number | undefined): boolean {
+  if (trade.side !== 'buy' || typeof launchedAt !== 'number') return false
+  const age = trade.time - launchedAt
+  return age >= 0 && age <= SNIPE_WINDOW_MS
+}
+
+/** Same object when the snipe is already known, so React state updates can bail out. */
+export function recordSnipe(snipers: KnownSnipers, wallet: string, mint: string, at: number): KnownSnipers {
+  const cur = snipers[wallet]
+  if (cur?.mints.includes(mint)) return snipers
+  const next: KnownSnipers = {
+    ...snipers,
+    [wallet]: { mints: [...(cur?.mints ?? []), mint].slice(-MAX_MINTS_PER_SNIPER), lastAt: at },
+  }
+  const wallets = Object.keys(next)
+  if (wallets.length <= MAX_KNOWN_SNIPERS) return next
+  // Forget the wallets that have been quiet the longest.
+  wallets.sort((a, b) => next[a].lastAt - next[b].lastAt)
+  for (const w of wallets.slice(0, wallets.length - MAX_KNOWN_SNIPERS)) delete next[w]
+  return next
+}
+
+export function loadKnownSnipers(): KnownSnipers {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return {}
+    const parsed = JSON.parse(raw) as Record<string, unknown> | null
+    if (!parsed || typeof parsed !== 'object') return {}
+    const out: KnownSnipers = {}
+    for (const [wallet, v] of Object.entries(parsed)) {
+      const entry = v as Partial<KnownSniper> | null
+      if (!entry || !Array.isArray(entry.mints)) continue
+      const mints = entry.mints.filter((m): m is string => typeof m === 'string')
+      if (mints.length) out[wallet] = { mints, lastAt: typeof entry.lastAt === 'number' ? entry.lastAt : 0 }
+    }
+    return out
+  } catch {
+    return {}
+  }
+}
+
+export function saveKnownSnipers(snipers: KnownSnipers) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(snipers))
+}
+
+/**
+ * Known snipers that sniped at least `minShared` of the same tokens as another known sniper:
+ * wallets that launch-buy together are usually one operator.
+ */
+export function sniperClusters(snipers: KnownSnipers, minShared = 2): Set<string> {
+  const byMint = new Map<string, string[]>()
+  for (const [wallet, entry] of Object.entries(snipers)) {
+    for (const mint of entry.mints) {
+      const list = byMint.get(mint) ?? []
+      list.push(wallet)
+      byMint.set(mint, list)
+    }
+  }
+  const shared = new Map<string, number>()
+  for (const wallets of byMint.values()) {
+    for (let i = 0; i < wallets.length; i += 1) {
+      for (let j = i + 1; j < wallets.length; j += 1) {
+        const pair = wallets[i] < wallets[j] ? `${wallets[i]}|${wallets[j]}` : `${wallets[j]}|${wallets[i]}`
+        shared.set(pair, (shared.get(pair) ?? 0) + 1)
+      }
+    }
+  }
+  const out = new Set<string>()
+  for (const [pair, count] of shared) {
+    if (count < minShared) continue
+    const [a, b] = pair.split('|')
+    out.add(a)
+    out.add(b)
+  }
+  return out
+}
@@ -7,6 +7,7 @@ import {
   Keypair,
 } from '@solana/web3.js'
 import { TOKEN_PROGRAM_ID } from '@solana/spl-token'
+import bs58 from 'bs58'
 
 export const SOL_MINT = 'So11111111111111111111111111111111111111112'
 
@@ -104,6 +105,26 @@ export function signTxWithKeypair(tx: Transaction | VersionedTransaction, signer
   return tx
 }
 
+/** Base58 id of a signed transaction, known before it is sent. */
+export function txSignature(tx: Transaction | VersionedTransaction): string | null {
+  const sig = tx instanceof VersionedTransaction ? tx.signatures[0] : tx.signature
+  return sig ? bs58.encode(sig) : null
+}
+
+/**
+ * Fee payer of a mint's creation transaction, i.e. the wallet that launched it. Null when the mint
+ * has more history than one page of signatures, so its creation can't be reached cheaply.
+ */
+export async function getTokenCreator(connection: Connection, mint: PublicKey): Promise<string | null> {
+  const sigs = await connection.getSignaturesForAddress(mint, { limit: 1000 }, 'confirmed')
+  if (!sigs.length || sigs.length >= 1000) return null
+  const tx = await connection.getTransaction(sigs[sigs.length - 1].signature, {
+    commitment: 'confirmed',
+    maxSupportedTransactionVersion: 0,
+  })
+  return tx?.transaction.message.staticAccountKeys[0]?.toBase58() ?? null
+}
+
 export function toBaseUnits(amountUi: number, decimals: number): bigint {
   const scale = 10 ** decimals
   return BigInt(Math.floor(amountUi * scale))
@@ -0,0 +1,269 @@
+/**
+ * SolanaTracker Datastream rooms: canonical room names and typed decoders for their payloads.
+ *
+ * `parseSolanaTrackerRoom` maps every alias we have used over time onto the documented room format
+ * and tells which family a room belongs to. `decodeSolanaTrackerPayload` turns a room's raw JSON
+ * into normalized events, so consumers never read upstream field names directly.
+ */
+
+import { SOL_MINT } from './solana'
+
+export type SolanaTrackerRoomFamily = 'price' | 'transaction' | 'pool' | 'holders' | 'wallet' | 'balance'
+
+export type SolanaTrackerRoom = {
+  /** Canonical room name, as sent in `join` / `leave`. */
+  room: string
+  family: SolanaTrackerRoomFamily
+  /** Token mint, for token-scoped rooms. */
+  token?: string
+  /** Pool id, for pool-scoped rooms. */
+  pool?: string
+  wallet?: string
+  /** `price:aggregated:<token>`: the median across pools rather than one pool's price. */
+  aggregated?: boolean
+}
+
+export type PriceEvent = {
+  kind: 'price'
+  room: string
+  token?: string
+  pool?: string
+  priceUsd: number
+  /** Price in the pool's quote token (usually SOL). */
+  priceQuote?: number
+  /** Aggregated rooms only: spread across pools. */
+  aggregated?: { median?: number; average?: number; min?: number; max?: number; poolCount?: number }
+  /** Event time (ms). */
+  time: number
+}
+
+export type TradeSide = 'buy' | 'sell'
+
+export type TradeEvent = {
+  kind: 'trade'
+  room: string
+  signature: string
+  side: TradeSide
+  wallet: string
+  token?: string
+  pool?: string
+  /** Token amount traded (UI units). */
+  amount: number
+  priceUsd?: number
+  volumeUsd?: number
+  volumeSol?: number
+  program?: string
+  time: number
+}
+
+export type PoolEvent = {
+  kind: 'pool'
+  room: string
+  pool: string
+  token?: string
+  liquidityUsd?: number
+  priceUsd?: number
+  marketCapUsd?: number
+  tokenSupply?: number
+  lpBurn?: number
+  market?: string
+  buys?: number
+  sells?: number
+  time: number
+}
+
+export type HoldersEvent = {
+  kind: 'holders'
+  room: string
+  token: string
+  total: number
+  time: number
+}
+
+export type BalanceEvent = {
+  kind: 'balance'
+  room: string
+  wallet: string
+  /** Token mint; undefined for the wallet's SOL balance. */
+  token?: string
+  /** New balance (UI units). */
+  amount: number
+  time: number
+}
+
+export type SolanaTrackerEvent = PriceEvent | TradeEvent | PoolEvent | HoldersEvent | BalanceEvent
+
+type AnyJson = Record<string, unknown>
+
+const ADDRESS = '[A-Za-z0-9]{32,44}'
+
+// Checked in order; the first match wins. Legacy aliases come after the documented names.
+const ROOM_PATTERNS: Array<{ re: RegExp; parse: (m: RegExpMatchArray) => SolanaTrackerRoom }> = [
+  {
+    re: /^(?:price:aggregated:|priceAggregated:)(.+)$/,
+    parse: (m) => ({ room: `price:aggregated:${m[1]}`, family: 'price', token: m[1], aggregated: true }),
+  },
+  {
+    re: /^(?:price-by-token:|price:token:|priceToken:)(.+)$/,
+    parse: (m) => ({ room: `price-by-token:${m[1]}`, family: 'price', token: m[1] }),
+  },
+  // `price:<address>` is per pool in the docs, but we have always joined it with a mint.
+  { re: new RegExp(`^price:(${ADDRESS})$`), parse: (m) => ({ room: `price:${m[1]}`, family: 'price', token: m[1] }) },
+  {
+    re: new RegExp(`^transaction:(${ADDRESS})(?::(${ADDRESS}))?(?::(${ADDRESS}))?$`),
+    parse: (m) => ({ room: m[0], family: 'transaction', token: m[1], pool: m[2], wallet: m[3] }),
+  },
+  { re: /^transaction:(.+)$/, parse: (m) => ({ room: m[0], family: 'transaction', token: m[1] }) },
+  {
+    re: /^(?:transactions:|tx:|token:tx:|tokenTx:|token:transactions:)(.+)$/,
+    parse: (m) => ({ room: `transaction:${m[1]}`, family: 'transaction', token: m[1] }),
+  },
+  { re: /^pool:(.+)$/, parse: (m) => ({ room: `pool:${m[1]}`, family: 'pool', pool: m[1] }) },
+  { re: /^holders:(.+)$/, parse: (m) => ({ room: `holders:${m[1]}`, family: 'holders', token: m[1] }) },
+  {
+    re: new RegExp(`^wallet:(${ADDRESS})(?::(${ADDRESS}))?:balance$`),
+    parse: (m) => ({ room: m[0], family: 'balance', wallet: m[1], token: m[2] }),
+  },
+  { re: /^wallet:(.+)$/, parse: (m) => ({ room: `wallet:${m[1]}`, family: 'wallet', wallet: m[1] }) },
+]
+
+/** Canonical room and family for a room name or alias; null for rooms we have no decoder for. */
+export function parseSolanaTrackerRoom(room: string): SolanaTrackerRoom | null {
+  const r = String(room || '').trim()
+  if (!r) return null
+  for (const { re, parse } of ROOM_PATTERNS) {
+    const m = r.match(re)
+    if (m && m[1]) return parse(m)
+  }
+  return null
+}
+
+const num = (v: unknown): number | undefined => {
+  const n = typeof v === 'string' ? Number(v) : v
+  return typeof n === 'number' && Number.isFinite(n) ? n : undefined
+}
+
+const str = (v: unknown): string | undefined => (typeof v === 'string' && v ? v : undefined)
+
+const obj = (v: unknown): AnyJson | undefined => (v && typeof v === 'object' && !Array.isArray(v) ? (v as AnyJson) : undefined)
+
+// Upstream times are epoch ms, but a few payloads use seconds.
+const time = (v: unknown): number => {
+  const n = num(v)
+  if (n === undefined || n <= 0) return Date.now()
+  return n < 1e12 ? n * 1000 : n
+}
+
+// `{ usd, quote }` objects or plain numbers.
+const usd = (v: unknown) => num(obj(v)?.usd ?? v)
+
+function decodePrice(room: SolanaTrackerRoom, d: AnyJson): PriceEvent | null {
+  const agg = obj(d.aggregated)
+  const priceUsd = num(d.price) ?? num(agg?.median) ?? num(obj(d.price)?.usd) ?? num(d.priceUsd)
+  if (priceUsd === undefined || priceUsd <= 0) return null
+  return {
+    kind: 'price',
+    room: room.room,
+    token: str(d.token) ?? room.token,
+    pool: str(d.pool) ?? str(d.poolId),
+    priceUsd,
+    priceQuote: num(d.price_quote) ?? num(obj(d.price)?.quote),
+    aggregated: agg
+      ? { median: num(agg.median), average: num(agg.average), min: num(agg.min), max: num(agg.max), poolCount: num(agg.poolCount) }
+      : undefined,
+    time: time(d.time ?? d.timestamp),
+  }
+}
+
+function decodeTrade(room: SolanaTrackerRoom, d: AnyJson): TradeEvent | null {
+  const signature = str(d.tx) ?? str(d.signature)
+  const side = d.type === 'buy' || d.type === 'sell' ? d.type : undefined
+  const wallet = str(d.wallet) ?? room.wallet
+  if (!signature || !side || !wallet) return null
+  // Wallet rooms carry both legs; the traded token is whichever side isn't the quote.
+  const legs = obj(d.token)
+  const tokenLeg = side === 'buy' ? obj(legs?.to) : obj(legs?.from)
+  const pools = Array.isArray(d.pools) ? d.pools : []
+  return {
+    kind: 'trade',
+    room: room.room,
+    signature,
+    side,
+    wallet,
+    token: room.token ?? str(tokenLeg?.address),
+    pool: room.pool ?? str(pools[0]) ?? str(d.pool),
+    amount: num(d.amount) ?? num(tokenLeg?.amount) ?? 0,
+    priceUsd: num(d.priceUsd),
+    volumeUsd: num(d.volume),
+    volumeSol: num(d.volumeSol),
+    program: str(d.program),
+    time: time(d.time),
+  }
+}
+
+function decodePool(room: SolanaTrackerRoom, d: AnyJson): PoolEvent | null {
+  const pool = str(d.poolId) ?? room.pool
+  if (!pool) return null
+  const txns = obj(d.txns)
+  return {
+    kind: 'pool',
+    room: room.room,
+    pool,
+    token: str(d.tokenAddress),
+    liquidityUsd: usd(d.liquidity),
+    priceUsd: usd(d.price),
+    marketCapUsd: usd(d.marketCap),
+    tokenSupply: num(d.tokenSupply),
+    lpBurn: num(d.lpBurn),
+    market: str(d.market),
+    buys: num(txns?.buys),
+    sells: num(txns?.sells),
+    time: time(d.lastUpdated),
+  }
+}
+
+function decodeHolders(room: SolanaTrackerRoom, d: AnyJson): HoldersEvent | null {
+  const total = num(d.total) ?? num(d.holders)
+  if (!room.token || total === undefined) return null
+  return { kind: 'holders', room: room.room, token: room.token, total, time: time(d.time ?? d.timestamp) }
+}
+
+// Balance rooms send the new balance, not the delta.
+function decodeBalance(room: SolanaTrackerRoom, d: AnyJson): BalanceEvent | null {
+  const wallet = str(d.wallet) ?? room.wallet
+  const amount = num(d.amount) ?? num(d.balance)
+  if (!wallet || amount === undefined) return null
+  const token = str(d.token) ?? str(d.mint) ?? room.token
+  return { kind: 'balance', room: room.room, wallet, token: token === SOL_MINT ? undefined : token, amount, time: time(d.time ?? d.timestamp) }
+}
+
+/** Normalized events from one room message (a payload may batch several records). Unparseable records are dropped. */
+export function decodeSolanaTrackerPayload(room: SolanaTrackerRoom, data: unknown): SolanaTrackerEvent[] {
+  const records = Array.isArray(data) ? data : [data]
+  const out: SolanaTrackerEvent[] = []
+  for (const record of records) {
+    const d = obj(record)
+    if (!d) continue
+    let event: SolanaTrackerEvent | null
+    switch (room.family) {
+      case 'price':
+        event = decodePrice(room, d)
+        break
+      case 'transaction':
+      case 'wallet':
+        event = decodeTrade(room, d)
+        break
+      case 'pool':
+        event = decodePool(room, d)
+        break
+      case 'holders':
+        event = decodeHolders(room, d)
+        break
+      case 'balance':
+        event = decodeBalance(room, d)
+        break
+    }
+    if (event) out.push(event)
+  }
+  return out
+}
@@ -1,3 +1,6 @@
+import { decodeSolanaTrackerPayload, parseSolanaTrackerRoom, type SolanaTrackerEvent } from './solanaTrackerRooms'
+import type { WebSocketFactory } from './wsRecorder'
+
 export type SolanaTrackerWsOptions = {
   datastreamKey?: string
   /**
@@ -13,8 +16,54 @@ export type SolanaTrackerWsOptions = {
   heartbeatMs?: number
   reconnectMinMs?: number
   reconnectMaxMs?: number
+  /** Socket constructor override, used by the session recorder / replayer. */
+  webSocketFactory?: WebSocketFactory
+  /**
+   * Leave and re-join a room that has been silent this long (ms). Each rejoin that brings no data
+   * doubles the wait, up to 5 minutes, so a token that simply stopped trading isn't hammered.
+   * 0 disables.
+   */
+  silentRejoinMs?: number
 }
 
+/** Health of one upstream room subscription. */
+export type SolanaTrackerRoomStats = {
+  /** Canonical room (the subscription key). */
+  room: string
+  /** Local `join` calls holding the room. */
+  refs: number
+  /** Upstream confirmed the join, with a `joined` reply or by sending data. */
+  acked: boolean
+  /** When the current join was sent; undefined while the socket is closed. */
+  joinSentAt?: number
+  messages: number
+  /** Messages per second, decayed over ~10s. */
+  ratePerSec: number
+  lastMessageAt?: number
+  errors: number
+  lastError?: string
+  /** Automatic rejoins after silence. */
+  rejoins: number
+  /** Time since the last message (or since the join, before any message); undefined while closed. */
+  silentMs?: number
+}
+
+type RoomCounters = {
+  acked: boolean
+  joinSentAt?: number
+  messages: number
+  rate: number
+  lastMessageAt?: number
+  errors: number
+  lastError?: string
+  rejoins: number
+  /** Rejoins in a row that brought no data; drives the backoff. */
+  silentRejoins: number
+}
+
+const RATE_TAU_MS = 10_000
+const SILENT_REJOIN_MAX_MS = 5 * 60_000
+
 type AnyJson = Record<string, unknown>
 
 export type SolanaTrackerWsMessage =
@@ -31,6 +80,7 @@ export class SolanaTrackerWs {
   private readonly heartbeatMs: number
   private readonly reconnectMinMs: number
   private readonly reconnectMaxMs: number
+  private readonly webSocketFactory?: WebSocketFactory
 
   private readonly roomListeners = new Map<string, Set<(data: AnyJson) => void>>()
   private readonly globalListeners = new Set<(msg: SolanaTrackerWsMessage) => void>()
@@ -40,6 +90,9 @@ export class SolanaTrackerWs {
   // based on a token/pool and should be ref-counted.
   private readonly roomToSubKey = new Map<string, string>()
   private readonly subKeyCounts = new Map<string, number>()
+  private readonly roomCounters = new Map<string, RoomCounters>()
+  private readonly silentRejoinMs: number
+  private watchdogTimer: number | null = null
 
   private reconnectTimer: number | null = null
   private heartbeatTimer: number | null = null
@@ -64,6 +117,8 @@ export class SolanaTrackerWs {
     this.heartbeatMs = opts.heartbeatMs ?? 0
     this.reconnectMinMs = opts.reconnectMinMs ?? 1_000
     this.reconnectMaxMs = opts.reconnectMaxMs ?? 6_000
+    this.webSocketFactory = opts.webSocketFactory
+    this.silentRejoinMs = opts.silentRejoinMs ?? 30_000
   }
 
   get endpointUrl() {
@@ -74,6 +129,7 @@ export class SolanaTrackerWs {
     return this.ws?.readyState === WebSocket.OPEN
   }
 
+  /** Raw payloads for exactly this room name. Prefer `onRoomEvent`, which decodes them. */
   onRoom(room: string, fn: (data: AnyJson) => void): () => void {
     const r = String(room || '').trim()
     if (!r) return () => {}
@@ -88,6 +144,42 @@ export class SolanaTrackerWs {
     }
   }
 
+  /**
+   * Typed events for a room given by any alias (`tx:<mint>`, `priceToken:<mint>`, …); listens on
+   * the canonical name. Rooms without a decoder (see `solanaTrackerRooms.ts`) never fire.
+   */
+  onRoomEvent(room: string, fn: (event: SolanaTrackerEvent) => void): () => void {
+    const parsed = parseSolanaTrackerRoom(room)
+    if (!parsed) return () => {}
+    return this.onRoom(parsed.room, (data) => {
+      for (const event of decodeSolanaTrackerPayload(parsed, data)) fn(event)
+    })
+  }
+
+  /** Per-room counters for every room currently joined, busiest first. */
+  getRoomStats(now = Date.now()): SolanaTrackerRoomStats[] {
+    const out: SolanaTrackerRoomStats[] = []
+    for (const [room, refs] of this.subKeyCounts) {
+      const c = this.roomCounters.get(room)
+      if (!c) continue
+      const since = c.lastMessageAt ?? c.joinSentAt
+      out.push({
+        room,
+        refs,
+        acked: c.acked,
+        joinSentAt: c.joinSentAt,
+        messages: c.messages,
+        ratePerSec: c.lastMessageAt ? c.rate * Math.exp(-(now - c.lastMessageAt) / RATE_TAU_MS) : 0,
+        lastMessageAt: c.lastMessageAt,
+        errors: c.errors,
+        lastError: c.lastError,
+        rejoins: c.rejoins,
+        silentMs: c.joinSentAt !== undefined && since !== undefined ? Math.max(0, now - since) : undefined,
+      })
+    }
+    return out.sort((a, b) => b.ratePerSec - a.ratePerSec)
+  }
+
   onMessage(fn: (msg: SolanaTrackerWsMessage) => void): () => void {
     this.globalListeners.add(fn)
     return () => {
@@ -100,7 +192,7 @@ export class SolanaTrackerWs {
     if (this.isOpen) return
 
     await new Promise<void>((resolve, reject) => {
-      const ws = new WebSocket(this.url)
+      const ws = this.webSocketFactory ? this.webSocketFactory(this.url) : new WebSocket(this.url)
       this.ws = ws
 
       const cleanup = () => {
@@ -113,6 +205,7 @@ export class SolanaTrackerWs {
         this.lastOpenMs = Date.now()
         this.sawDataMessageSinceOpen = false
         this.startHeartbeat()
+        this.startWatchdog()
         // resubscribe
         for (const subKey of this.subKeyCounts.keys()) {
           this.sendJoinForSubKey(ws, subKey)
@@ -140,6 +233,11 @@ export class SolanaTrackerWs {
 
       ws.addEventListener('close', (evt) => {
         this.stopHeartbeat()
+        this.stopWatchdog()
+        for (const c of this.roomCounters.values()) {
+          c.acked = false
+          c.joinSentAt = undefined
+        }
 
         const now = Date.now()
         const openAge = this.lastOpenMs ? now - this.lastOpenMs : Number.POSITIVE_INFINITY
@@ -214,6 +312,7 @@ export class SolanaTrackerWs {
               : undefined
 
         const parsed = (inferredType ? ({ ...parsedAny, type: inferredType } as SolanaTrackerWsMessage) : (parsedAny as SolanaTrackerWsMessage))
+        this.countRoomMessage(parsed)
 
         if (this.globalListeners.size) {
           for (const fn of this.globalListeners) {
@@ -234,14 +333,16 @@ export class SolanaTrackerWs {
           if (!room || !data) return
 
           this.sawDataMessageSinceOpen = true
-          const listeners = this.roomListeners.get(room)
-          if (listeners && listeners.size) {
-            for (const fn of listeners) {
-              try {
-                fn(data)
-              } catch {
-                // ignore
-              }
+          // `onRoomEvent` listens on the canonical name, whatever alias the server echoes;
+          // raw `onRoom` callers also get the exact name.
+          const canonical = this.computeSubKey(room) ?? room
+          const listeners = [...(this.roomListeners.get(canonical) ?? [])]
+          if (canonical !== room) listeners.push(...(this.roomListeners.get(room) ?? []))
+          for (const fn of listeners) {
+            try {
+              fn(data)
+            } catch {
+              // ignore
             }
           }
         }
@@ -257,6 +358,9 @@ export class SolanaTrackerWs {
     this.roomToSubKey.set(r, subKey)
     const next = (this.subKeyCounts.get(subKey) ?? 0) + 1
     this.subKeyCounts.set(subKey, next)
+    if (next === 1) {
+      this.roomCounters.set(subKey, { acked: false, messages: 0, rate: 0, errors: 0, rejoins: 0, silentRejoins: 0 })
+    }
     if (next === 1 && this.ws && this.ws.readyState === WebSocket.OPEN) {
       this.sendJoinForSubKey(this.ws, subKey)
     }
@@ -271,6 +375,7 @@ export class SolanaTrackerWs {
     const cur = this.subKeyCounts.get(subKey) ?? 0
     if (cur <= 1) {
       this.subKeyCounts.delete(subKey)
+      this.roomCounters.delete(subKey)
       if (this.ws && this.ws.readyState === WebSocket.OPEN) {
         this.sendLeaveForSubKey(this.ws, subKey)
       }
@@ -284,6 +389,7 @@ export class SolanaTrackerWs {
     if (this.reconnectTimer) window.clearTimeout(this.reconnectTimer)
     this.reconnectTimer = null
     this.stopHeartbeat()
+    this.stopWatchdog()
     try {
       this.ws?.close()
     } catch {
@@ -292,6 +398,7 @@ export class SolanaTrackerWs {
     this.ws = null
     this.roomToSubKey.clear()
     this.subKeyCounts.clear()
+    this.roomCounters.clear()
     this.roomListeners.clear()
     this.globalListeners.clear()
   }
@@ -299,30 +406,8 @@ export class SolanaTrackerWs {
   private computeSubKey(room: string): string | null {
     // Canonicalize "room-like" strings to the documented room format.
     // Join/leave always use { type: 'join'|'leave', room: '...' }.
-
-    // Aggregated price
-    const pa = room.match(/^(?:price:aggregated:|priceAggregated:)(.+)$/)
-    if (pa && pa[1]) return `price:aggregated:${pa[1]}`
-
-    // Price by token (primary pool)
-    const pbt = room.match(/^(?:price-by-token:)(.+)$/)
-    if (pbt && pbt[1]) return `price-by-token:${pbt[1]}`
-
-    // Legacy aliases for price-by-token
-    const legacyPbt = room.match(/^(?:price:token:|priceToken:)(.+)$/)
-    if (legacyPbt && legacyPbt[1]) return `price-by-token:${legacyPbt[1]}`
-
-    // Price across all pools for token
-    const pAll = room.match(/^(?:price:)([A-Za-z0-9]{32,44})$/)
-    if (pAll && pAll[1]) return `price:${pAll[1]}`
-
-    // Token transactions
-    const tx = room.match(/^(?:transaction:)(.+)$/)
-    if (tx && tx[1]) return `transaction:${tx[1]}`
-
-    // Legacy transaction aliases
-    const legacyTx = room.match(/^(?:transactions:|tx:|token:tx:|tokenTx:|token:transactions:)(.+)$/)
-    if (legacyTx && legacyTx[1]) return `transaction:${legacyTx[1]}`
+    const parsed = parseSolanaTrackerRoom(room)
+    if (parsed) return parsed.room
 
     // As a final fallback, if the caller already passed a room-like string,
     // allow it through unchanged.
@@ -332,6 +417,11 @@ export class SolanaTrackerWs {
   }
 
   private sendJoinForSubKey(ws: WebSocket, subKey: string) {
+    const c = this.roomCounters.get(subKey)
+    if (c) {
+      c.acked = false
+      c.joinSentAt = Date.now()
+    }
     try {
       ws.send(JSON.stringify({ type: 'join', room: subKey }))
     } catch {
@@ -347,6 +437,58 @@ export class SolanaTrackerWs {
     }
   }
 
+  private countRoomMessage(msg: SolanaTrackerWsMessage) {
+    const type = (msg as AnyJson).type
+    const rawRoom = (msg as { room?: unknown }).room
+    if (typeof rawRoom !== 'string' || !rawRoom) return
+    const c = this.roomCounters.get(this.computeSubKey(rawRoom) ?? rawRoom)
+    if (!c) return
+    const now = Date.now()
+    if (type === 'joined') {
+      c.acked = true
+    } else if (type === 'error') {
+      c.errors += 1
+      const m = (msg as { message?: unknown }).message
+      c.lastError = typeof m === 'string' ? m : 'error'
+    } else if (type === 'message') {
+      // Data proves the subscription even when upstream never sends `joined`.
+      c.acked = true
+      c.messages += 1
+      c.silentRejoins = 0
+      const decay = c.lastMessageAt ? Math.exp(-(now - c.lastMessageAt) / RATE_TAU_MS) : 0
+      c.rate = c.rate * decay + 1000 / RATE_TAU_MS
+      c.lastMessageAt = now
+    }
+  }
+
+  private startWatchdog() {
+    this.stopWatchdog()
+    if (this.silentRejoinMs <= 0) return
+    this.watchdogTimer = window.setInterval(() => this.rejoinSilentRooms(), Math.min(5_000, this.silentRejoinMs))
+  }
+
+  private stopWatchdog() {
+    if (this.watchdogTimer) window.clearInterval(this.watchdogTimer)
+    this.watchdogTimer = null
+  }
+
+  private rejoinSilentRooms() {
+    const ws = this.ws
+    if (!ws || ws.readyState !== WebSocket.OPEN) return
+    const now = Date.now()
+    for (const [subKey, c] of this.roomCounters) {
+      if (c.joinSentAt === undefined) continue
+      // Measured from the later of the last message and the last (re)join.
+      const since = Math.max(c.lastMessageAt ?? 0, c.joinSentAt)
+      const limit = Math.min(SILENT_REJOIN_MAX_MS, this.silentRejoinMs * 2 ** c.silentRejoins)
+      if (now - since < limit) continue
+      c.rejoins += 1
+      c.silentRejoins += 1
+      this.sendLeaveForSubKey(ws, subKey)
+      this.sendJoinForSubKey(ws, subKey)
+    }
+  }
+
   private scheduleReconnect() {
     if (this.reconnectTimer) return
     const delay = Math.floor(
@@ -0,0 +1,128 @@
+/**
+ * Whale and dev/insider activity read straight from the trade stream.
+ *
+ * `devPct` / `insiderPct` in token metrics refresh every few seconds at best; the datastream shows the
+ * same moves as they land. The detector ranks each swap's SOL size against the token's recent
+ * swaps and matches the wallet against the token's creator and the known-sniper registry.
+ */
+
+import type { KnownSnipers } from './snipers'
+import type { TradeEvent } from './solanaTrackerRooms'
+
+/** In priority order: the first flag names the signal. */
+export const TRADE_FLAGS = ['dev', 'insider', 'cluster', 'whale'] as const
+
+export type TradeFlag = (typeof TRADE_FLAGS)[number]
+
+export type TradeSignal = {
+  trade: TradeEvent
+  flags: TradeFlag[]
+  /** Share of the token's recent swaps smaller than this one (0–100). */
+  sizePercentile?: number
+}
+
+export type TradeSignalContext = {
+  /** Wallet that launched the token, when known. */
+  creator?: string | null
+  snipers: KnownSnipers
+  /** Known snipers that launch-buy together (see `sniperClusters`). */
+  clusters: ReadonlySet<string>
+}
+
+export type TradeSignalDetectorOptions = {
+  /** Swaps at or above this size percentile are whales… */
+  whalePercentile?: number
+  /** …once this many swaps have been seen… */
+  minSamples?: number
+  /** …and only when at least this big (SOL). */
+  whaleMinSol?: number
+  /** Always a whale, however few swaps have been seen (SOL). */
+  whaleAlwaysSol?: number
+  /** Recent swaps the percentile is taken over. */
+  window?: number
+}
+
+export const TRADE_FLAG_LABELS: Record<TradeFlag, string> = {
+  dev: 'DEV',
+  insider: 'INSIDER',
+  cluster: 'CLUSTER',
+  whale: 'WHALE',
+}
+
+/** Per-token detector: one instance per trade stream. */
+export class TradeSignalDetector {
+  private readonly whalePercentile: number
+  private readonly minSamples: number
+  private readonly whaleMinSol: number
+  private readonly whaleAlwaysSol: number
+  private readonly window: number
+  private readonly recent: number[] = []
+  private readonly sorted: number[] = []
+
+  constructor(opts: TradeSignalDetectorOptions = {}) {
+    this.whalePercentile = opts.whalePercentile ?? 95
+    this.minSamples = opts.minSamples ?? 30
+    this.whaleMinSol = opts.whaleMinSol ?? 1
+    this.whaleAlwaysSol = opts.whaleAlwaysSol ?? 25
+    this.window = opts.window ?? 500
+  }
+
+  get sampleCount() {
+    return this.recent.length
+  }
+
+  /**
+   * Records the swap and returns a signal when it is worth surfacing: dev trades and whales on
+   * either side, insider and cluster wallets only when they sell (their buys are launch noise).
+   */
+  push(trade: TradeEvent, ctx: TradeSignalContext): TradeSignal | null {
+    const sol = trade.volumeSol
+    const sizePercentile = typeof sol === 'number' ? this.percentileOf(sol) : undefined
+    const enoughSamples = this.recent.length >= this.minSamples
+    if (typeof sol === 'number' && Number.isFinite(sol)) this.record(sol)
+
+    const flags: TradeFlag[] = []
+    if (ctx.creator && trade.wallet === ctx.creator) flags.push('dev')
+    if (trade.side === 'sell' && trade.token && ctx.snipers[trade.wallet]?.mints.includes(trade.token)) flags.push('insider')
+    if (trade.side === 'sell' && ctx.clusters.has(trade.wallet)) flags.push('cluster')
+    if (typeof sol === 'number') {
+      const big = enoughSamples && sol >= this.whaleMinSol && (sizePercentile ?? 0) >= this.whalePercentile
+      if (big || sol >= this.whaleAlwaysSol) flags.push('whale')
+    }
+
+    if (!flags.length) return null
+    return { trade, flags, sizePercentile: enoughSamples ? sizePercentile : undefined }
+  }
+
+  private percentileOf(sol: number) {
+    if (!this.sorted.length) return undefined
+    return (lowerBound(this.sorted, sol) / this.sorted.length) * 100
+  }
+
+  private record(sol: number) {
+    this.recent.push(sol)
+    this.sorted.splice(lowerBound(this.sorted, sol), 0, sol)
+    if (this.recent.length <= this.window) return
+    const dropped = this.recent.shift()!
+    this.sorted.splice(lowerBound(this.sorted, dropped), 1)
+  }
+}
+
+/** Chart marker text: `DEV SELL 3.20`, `WHALE BUY 12.5`. */
+export function describeTradeSignal(signal: TradeSignal): string {
+  const primary = TRADE_FLAGS.find((f) => signal.flags.includes(f)) ?? 'whale'
+  const sol = signal.trade.volumeSol
+  const size = typeof sol === 'number' ? ` ${sol >= 10 ? sol.toFixed(1) : sol.toFixed(2)}` : ''
+  return `${TRADE_FLAG_LABELS[primary]} ${signal.trade.side.toUpperCase()}${size}`
+}
+
+function lowerBound(sorted: number[], value: number) {
+  let lo = 0
+  let hi = sorted.length
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1
+    if (sorted[mid] < value) lo = mid + 1
+    else hi = mid
+  }
+  return lo
+}
@@ -0,0 +1,88 @@
+/**
+ * Popout trade tape: decoded swaps from a token's `transaction:<mint>` room, newest first.
+ *
+ * The tape keeps raw `TradeEvent`s; which of them are ours or snipers is worked out when
+ * rendering, so the flags follow wallet and registry changes without touching the stream.
+ */
+
+import type { TradeEvent, TradeSide } from './solanaTrackerRooms'
+
+export const TRADE_TAPE_LIMIT = 200
+
+export type TapeTrade = TradeEvent & {
+  /** Sent by one of our own wallets (connected, bot or Fast Mode key). */
+  ours: boolean
+  /** Wallet is in the known-sniper registry. */
+  sniper: boolean
+  /** Wallet launched the token. */
+  dev: boolean
+}
+
+export type TradeTapeFilters = {
+  /** Hide swaps smaller than this (SOL); swaps without a SOL size always show. */
+  minSol: number
+  side: 'all' | TradeSide
+  hideSnipers: boolean
+}
+
+export const DEFAULT_TRADE_TAPE_FILTERS: TradeTapeFilters = { minSol: 0, side: 'all', hideSnipers: false }
+
+/**
+ * Adds `incoming` (oldest first) to the front of the tape. Routed swaps show up once per hop,
+ * so a signature is kept once per wallet and side.
+ */
+export function pushTapeTrades(tape: TradeEvent[], incoming: TradeEvent[], limit = TRADE_TAPE_LIMIT): TradeEvent[] {
+  const key = (t: TradeEvent) => `${t.signature}|${t.wallet}|${t.side}`
+  const seen = new Set(tape.map(key))
+  const fresh: TradeEvent[] = []
+  for (const t of incoming) {
+    const k = key(t)
+    if (seen.has(k)) continue
+    seen.add(k)
+    fresh.push(t)
+  }
+  if (!fresh.length) return tape
+  return [...fresh.reverse(), ...tape].slice(0, limit)
+}
+
+/** Our own fills always pass: they are what the trader is watching for. */
+export function filterTradeTape(trades: TapeTrade[], filters: TradeTapeFilters): TapeTrade[] {
+  return trades.filter((t) => {
+    if (t.ours) return true
+    if (filters.side !== 'all' && t.side !== filters.side) return false
+    if (filters.hideSnipers && t.sniper) return false
+    if (filters.minSol > 0 && typeof t.volumeSol === 'number' && t.volumeSol < filters.minSol) return false
+    return true
+  })
+}
+
+/** 1.23M / 45.6K / 789 style token amounts. */
+export function formatTapeAmount(n: number): string {
+  const abs = Math.abs(n)
+  if (abs >= 1e9) return `${(n / 1e9).toFixed(2)}B`
+  if (abs >= 1e6) return `${(n / 1e6).toFixed(2)}M`
+  if (abs >= 1e3) return `${(n / 1e3).toFixed(1)}K`
+  return abs >= 1 ? n.toFixed(0) : n.toPrecision(2)
+}
+
+const STORAGE_KEY = 'dequanswap.tradeTapeFilters'
+
+export function loadTradeTapeFilters(): TradeTapeFilters {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return DEFAULT_TRADE_TAPE_FILTERS
+    const parsed = JSON.parse(raw) as Partial<TradeTapeFilters> | null
+    if (!parsed || typeof parsed !== 'object') return DEFAULT_TRADE_TAPE_FILTERS
+    return {
+      minSol: typeof parsed.minSol === 'number' && parsed.minSol >= 0 ? parsed.minSol : 0,
+      side: parsed.side === 'buy' || parsed.side === 'sell' ? parsed.side : 'all',
+      hideSnipers: parsed.hideSnipers === true,
+    }
+  } catch {
+    return DEFAULT_TRADE_TAPE_FILTERS
+  }
+}
+
+export function saveTradeTapeFilters(filters: TradeTapeFilters) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(filters))
+}
@@ -0,0 +1,162 @@
+/**
+ * Trading API endpoint list + /healthz probing, used by TradingWs to pick (and fail over
+ * between) endpoints, e.g. a primary Cloudflare tunnel and a backup hostname.
+ */
+
+export type TradingApiTierCounts = {
+  totalSockets: number
+  authed: number
+  authedSockets?: number
+  tiers: {
+    free: number
+    pro: number
+    elite: number
+    unknown: number
+  }
+}
+
+export type TradingApiHealthz = {
+  ok: boolean
+  ts?: number
+  service?: string
+  version?: string
+  uptimeSec?: number
+  auth?: {
+    required?: boolean
+    methods?: {
+      apiKey?: boolean
+      token?: boolean
+      jwt?: boolean
+      cfAccess?: boolean
+      walletSig?: boolean
+    }
+    cfAccess?: {
+      required?: boolean
+      issuer?: string
+      audience?: string
+      jwksUrl?: string
+    }
+    walletSig?: {
+      required?: boolean
+    }
+    jwt?: {
+      disabled?: boolean
+      issuer?: string
+      audience?: string
+      jwksUrl?: string
+    }
+  }
+  originAllowlist?: {
+    enabled?: boolean
+    allowNoOrigin?: boolean
+    allowedOrigins?: string[]
+  }
+  rateLimit?: {
+    enabled?: boolean
+    rps?: number
+    burst?: number
+  }
+  userRateLimit?: {
+    enabled?: boolean
+    rps?: number
+    burst?: number
+  }
+  connections?: TradingApiTierCounts
+}
+
+export type TradingEndpointHealth = {
+  url: string
+  checkedAt: number
+  /** /healthz answered with `ok: true`. */
+  healthy: boolean
+  latencyMs?: number
+  error?: string
+  healthz?: TradingApiHealthz
+}
+
+const LATENCY_PREFERENCE_MS = 150
+
+/** Splits a comma/whitespace separated endpoint setting (`VITE_DEQUANW_WS_URL` or the Debug Portal field). */
+export function parseTradingEndpoints(raw: string): string[] {
+  const out: string[] = []
+  for (const part of String(raw || '').split(/[\s,]+/)) {
+    const url = part.trim()
+    if (url && !out.includes(url)) out.push(url)
+  }
+  return out
+}
+
+export function healthzUrlForWsUrl(wsUrl: string): string {
+  const u = new URL(wsUrl)
+  u.protocol = u.protocol === 'wss:' ? 'https:' : 'http:'
+  u.pathname = '/healthz'
+  u.search = ''
+  u.hash = ''
+  return u.toString()
+}
+
+export async function probeTradingEndpoint(url: string, timeoutMs = 2_500): Promise<TradingEndpointHealth> {
+  const started = performance.now()
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), timeoutMs)
+  try {
+    const r = await fetch(healthzUrlForWsUrl(url), {
+      method: 'GET',
+      cache: 'no-store',
+      credentials: 'include',
+      signal: controller.signal,
+    })
+    if (!r.ok) throw new Error(`healthz_http_${r.status}`)
+    const healthz = (await r.json()) as TradingApiHealthz
+    return {
+      url,
+      checkedAt: Date.now(),
+      healthy: healthz?.ok === true,
+      latencyMs: Math.round(performance.now() - started),
+      healthz,
+    }
+  } catch (e) {
+    return {
+      url,
+      checkedAt: Date.now(),
+      healthy: false,
+      error: controller.signal.aborted ? 'healthz_timeout' : e instanceof Error ? e.message : String(e || 'healthz_error'),
+    }
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * Orders endpoints best-first: healthy, then unknown, then known-bad; ties go by configured order
+ * unless probe latency differs a lot. `avoid` (the endpoint that just dropped) goes last among equals so a
+ * failover actually moves.
+ */
+export function rankTradingEndpoints(urls: string[], health: Map<string, TradingEndpointHealth>, avoid?: string): string[] {
+  const rank = (url: string) => {
+    const h = health.get(url)
+    if (h?.healthy) return 0
+    return h && isDefinitelyDown(h) ? 2 : 1
+  }
+  return urls
+    .map((url, index) => ({ url, index }))
+    .sort((a, b) => {
+      const byHealth = rank(a.url) - rank(b.url)
+      if (byHealth) return byHealth
+      const byAvoid = Number(a.url === avoid) - Number(b.url === avoid)
+      if (byAvoid) return byAvoid
+      // Only a clear latency gap beats configured order; every switch costs a re-auth.
+      const la = health.get(a.url)?.latencyMs
+      const lb = health.get(b.url)?.latencyMs
+      if (la !== undefined && lb !== undefined && Math.abs(la - lb) > LATENCY_PREFERENCE_MS) return la - lb
+      return a.index - b.index
+    })
+    .map((x) => x.url)
+}
+
+// /healthz can be unreachable from the browser (CORS, Cloudflare Access redirects) while the
+// WebSocket works, so only an explicit `ok: false`, a 5xx or a timeout counts as down.
+function isDefinitelyDown(h: TradingEndpointHealth): boolean {
+  if (h.healthz) return h.healthz.ok !== true
+  return h.error === 'healthz_timeout' || /^healthz_http_5\d\d$/.test(h.error || '')
+}
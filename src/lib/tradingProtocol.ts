@@ -0,0 +1,602 @@
+/**
+ * dequanW Trading API WebSocket protocol.
+ *
+ * Every request the client sends and every response/push it understands, plus runtime
+ * validators for server frames. A backend contract change should fail here, loudly,
+ * instead of surfacing as `undefined` fields in the UI.
+ */
+
+type AnyJson = Record<string, unknown>
+
+// ---------------------------------------------------------------------------
+// Requests (client → server)
+// ---------------------------------------------------------------------------
+
+export type QuoteParams = {
+  userPubkey: string
+  inputMint: string
+  outputMint: string
+  amountIn: string
+  slippageBps: number
+}
+
+/** Shared input side for every leg; each leg quotes `amountIn` of `inputMint` into its own `outputMint`. */
+export type QuoteBatchParams = {
+  userPubkey: string
+  inputMint: string
+  slippageBps: number
+  legs: Array<{
+    outputMint: string
+    amountIn: string
+  }>
+}
+
+export type CreateOrderParams = {
+  side: 'buy' | 'sell'
+  mint: string
+  idempotencyKey: string
+  userPubkey: string
+}
+
+export type BuildSwapTxParams = {
+  userPubkey: string
+  quote: {
+    provider: 'jupiter'
+    serializedQuote: string
+  }
+  orderId?: string
+  wrapAndUnwrapSol?: boolean
+  asLegacyTransaction?: boolean
+  destinationTokenAccount?: string
+}
+
+export type SubmitSignedTxParams = {
+  orderId: string
+  signedTxBase64: string
+}
+
+export type BuildSubscriptionTxParams = {
+  tier: 'pro' | 'elite'
+  accountJwt: string
+}
+
+export type SubmitSubscriptionPaymentParams = {
+  attemptId: number
+  tier: 'pro' | 'elite'
+  signedTxBase64: string
+  accountJwt: string
+}
+
+export type TradingRequest =
+  | { type: 'quote'; params: QuoteParams }
+  | { type: 'quote_batch'; params: QuoteBatchParams }
+  | { type: 'create_order'; params: CreateOrderParams }
+  | { type: 'build_swap_tx'; params: BuildSwapTxParams }
+  | { type: 'submit_signed_tx'; params: SubmitSignedTxParams }
+  | { type: 'get_positions' }
+  | { type: 'get_history' }
+  | { type: 'get_subscription_status' }
+  | { type: 'build_subscription_tx'; params: BuildSubscriptionTxParams }
+  | { type: 'submit_subscription_payment'; params: SubmitSubscriptionPaymentParams }
+
+export type TradingFireAndForget =
+  | { type: 'subscribe_price'; mint: string }
+  | { type: 'unsubscribe_price'; mint: string }
+
+export type TradingRequestType = TradingRequest['type']
+
+// ---------------------------------------------------------------------------
+// Responses (server → client)
+// ---------------------------------------------------------------------------
+
+export type QuoteResult = {
+  type: 'quote_result'
+  success: boolean
+  data?: {
+    amountIn: string
+    amountOut: string
+    minOut: string
+    priceImpactBps?: number
+    route?: {
+      provider?: string
+      hops?: number
+      serializedQuote?: string
+    }
+  }
+}
+
+export type QuoteBatchLegResult = {
+  outputMint: string
+  success: boolean
+  data?: NonNullable<QuoteResult['data']>
+  error?: { code?: string; message: string }
+}
+
+/** Legs fail independently; `success` on the envelope only covers the batch as a whole. */
+export type QuoteBatchResult = {
+  type: 'quote_batch_result'
+  success: boolean
+  data?: {
+    results: QuoteBatchLegResult[]
+  }
+}
+
+export type BuildSwapTxResult = {
+  type: 'build_swap_tx_result'
+  success: boolean
+  data?: {
+    transactionBase64?: string
+    swapTransaction?: string
+    recentBlockhash?: string
+    lastValidBlockHeight?: number
+  }
+}
+
+export type CreateOrderResult = {
+  type: 'create_order_result'
+  success: boolean
+  data?: {
+    orderId?: string
+  }
+}
+
+export type SubmitSignedTxResult = {
+  type: 'submit_signed_tx_result'
+  success: boolean
+  data?: {
+    signature?: string
+  }
+}
+
+export type GetPositionsResult = {
+  type: 'get_positions_result'
+  success: boolean
+  data?: {
+    holdings?: Array<{
+      mint?: string
+      isOpen?: boolean
+      openedAt?: number
+      updatedAt?: number
+    }>
+  }
+}
+
+export type GetHistoryResult = {
+  type: 'get_history_result'
+  success: boolean
+  data?: {
+    history?: Array<{
+      mint?: string
+      soldAt?: number
+      sellSignature?: string
+    }>
+  }
+}
+
+export type GetSubscriptionStatusResult = {
+  type: 'get_subscription_status_result'
+  success: boolean
+  data?: {
+    subscriptionWallet?: string
+    currencyMint?: string
+    decimals?: number
+    pricing?: { pro?: number; elite?: number }
+    active?: boolean
+    needsRenewalSoon?: boolean
+    overdue?: boolean
+    dueInMs?: number
+    subscription?: {
+      tier: 'pro' | 'elite'
+      status: string
+      currentPeriodEndAt: number
+      nextDueAt: number
+    }
+    latestPayment?: {
+      id: number
+      tier: 'pro' | 'elite'
+      status: string
+      signature?: string
+      createdAt: number
+      confirmedAt?: number
+      errorMessage?: string
+    }
+  }
+}
+
+export type BuildSubscriptionTxResult = {
+  type: 'build_subscription_tx_result'
+  success: boolean
+  data?: {
+    attemptId: number
+    transactionBase64: string
+    recentBlockhash?: string
+    lastValidBlockHeight?: number
+    tier: 'pro' | 'elite'
+    amountBaseUnits: number
+    currencyMint: string
+    subscriptionWallet: string
+  }
+}
+
+export type SubmitSubscriptionPaymentResult = {
+  type: 'submit_subscription_payment_result'
+  success: boolean
+  data?: { attemptId: number; signature: string }
+}
+
+export type TradingResponseMap = {
+  quote: QuoteResult
+  quote_batch: QuoteBatchResult
+  create_order: CreateOrderResult
+  build_swap_tx: BuildSwapTxResult
+  submit_signed_tx: SubmitSignedTxResult
+  get_positions: GetPositionsResult
+  get_history: GetHistoryResult
+  get_subscription_status: GetSubscriptionStatusResult
+  build_subscription_tx: BuildSubscriptionTxResult
+  submit_subscription_payment: SubmitSubscriptionPaymentResult
+}
+
+export type TradingResponse = TradingResponseMap[TradingRequestType]
+
+// ---------------------------------------------------------------------------
+// Push events (server → client, unsolicited)
+// ---------------------------------------------------------------------------
+
+export type OrderUpdateMsg = {
+  type: 'order_update'
+  data?: Record<string, unknown>
+}
+
+export type PositionUpdateMsg = {
+  type: 'position_update'
+  data?: Record<string, unknown>
+}
+
+export type PriceTickMsg = {
+  type: 'price_tick'
+  mint: string
+  price?: number
+  priceUsd?: number
+  timestamp?: number
+}
+
+export type TradingPushMessage = OrderUpdateMsg | PositionUpdateMsg | PriceTickMsg
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+export class TradingProtocolError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TradingProtocolError'
+  }
+}
+
+function fail(path: string, expected: string): never {
+  throw new TradingProtocolError(`${path} must be ${expected}`)
+}
+
+function expectObject(v: unknown, path: string): AnyJson {
+  if (!v || typeof v !== 'object' || Array.isArray(v)) fail(path, 'an object')
+  return v as AnyJson
+}
+
+function optObject(obj: AnyJson, key: string, path: string): AnyJson | undefined {
+  const v = obj[key]
+  if (v === undefined || v === null) return undefined
+  return expectObject(v, `${path}.${key}`)
+}
+
+function reqString(obj: AnyJson, key: string, path: string): string {
+  const v = obj[key]
+  if (typeof v !== 'string') fail(`${path}.${key}`, 'a string')
+  return v
+}
+
+function optString(obj: AnyJson, key: string, path: string): string | undefined {
+  const v = obj[key]
+  if (v === undefined || v === null) return undefined
+  if (typeof v !== 'string') fail(`${path}.${key}`, 'a string')
+  return v
+}
+
+function reqNumber(obj: AnyJson, key: string, path: string): number {
+  const v = obj[key]
+  if (typeof v !== 'number' || !Number.isFinite(v)) fail(`${path}.${key}`, 'a finite number')
+  return v
+}
+
+function optNumber(obj: AnyJson, key: string, path: string): number | undefined {
+  const v = obj[key]
+  if (v === undefined || v === null) return undefined
+  if (typeof v !== 'number' || !Number.isFinite(v)) fail(`${path}.${key}`, 'a finite number')
+  return v
+}
+
+function reqBoolean(obj: AnyJson, key: string, path: string): boolean {
+  const v = obj[key]
+  if (typeof v !== 'boolean') fail(`${path}.${key}`, 'a boolean')
+  return v
+}
+
+function optBoolean(obj: AnyJson, key: string, path: string): boolean | undefined {
+  const v = obj[key]
+  if (v === undefined || v === null) return undefined
+  if (typeof v !== 'boolean') fail(`${path}.${key}`, 'a boolean')
+  return v
+}
+
+function optArray(obj: AnyJson, key: string, path: string): unknown[] | undefined {
+  const v = obj[key]
+  if (v === undefined || v === null) return undefined
+  if (!Array.isArray(v)) fail(`${path}.${key}`, 'an array')
+  return v
+}
+
+function reqTier(obj: AnyJson, key: string, path: string): 'pro' | 'elite' {
+  const v = obj[key]
+  if (v !== 'pro' && v !== 'elite') fail(`${path}.${key}`, "'pro' or 'elite'")
+  return v
+}
+
+function envelope(raw: unknown, type: string): { msg: AnyJson; success: boolean; data: AnyJson | undefined } {
+  const msg = expectObject(raw, type)
+  if (msg.type !== type) fail(`${type}.type`, `'${type}'`)
+  return { msg, success: reqBoolean(msg, 'success', type), data: optObject(msg, 'data', type) }
+}
+
+function parseQuoteData(data: AnyJson, p: string): NonNullable<QuoteResult['data']> {
+  const route = optObject(data, 'route', p)
+  return {
+    amountIn: reqString(data, 'amountIn', p),
+    amountOut: reqString(data, 'amountOut', p),
+    minOut: reqString(data, 'minOut', p),
+    priceImpactBps: optNumber(data, 'priceImpactBps', p),
+    route: route
+      ? {
+          provider: optString(route, 'provider', `${p}.route`),
+          hops: optNumber(route, 'hops', `${p}.route`),
+          serializedQuote: optString(route, 'serializedQuote', `${p}.route`),
+        }
+      : undefined,
+  }
+}
+
+export function parseQuoteResult(raw: unknown): QuoteResult {
+  const t = 'quote_result'
+  const { success, data } = envelope(raw, t)
+  if (!data) return { type: t, success }
+  return { type: t, success, data: parseQuoteData(data, `${t}.data`) }
+}
+
+export function parseQuoteBatchResult(raw: unknown): QuoteBatchResult {
+  const t = 'quote_batch_result'
+  const { success, data } = envelope(raw, t)
+  if (!data) return { type: t, success }
+  const p = `${t}.data`
+  const results = optArray(data, 'results', p) ?? []
+  return {
+    type: t,
+    success,
+    data: {
+      results: results.map((r, i) => {
+        const rp = `${p}.results[${i}]`
+        const o = expectObject(r, rp)
+        const legData = optObject(o, 'data', rp)
+        const err = optObject(o, 'error', rp)
+        return {
+          outputMint: reqString(o, 'outputMint', rp),
+          success: reqBoolean(o, 'success', rp),
+          data: legData ? parseQuoteData(legData, `${rp}.data`) : undefined,
+          error: err ? { code: optString(err, 'code', `${rp}.error`), message: reqString(err, 'message', `${rp}.error`) } : undefined,
+        }
+      }),
+    },
+  }
+}
+
+export function parseBuildSwapTxResult(raw: unknown): BuildSwapTxResult {
+  const t = 'build_swap_tx_result'
+  const { success, data } = envelope(raw, t)
+  if (!data) return { type: t, success }
+  const p = `${t}.data`
+  return {
+    type: t,
+    success,
+    data: {
+      transactionBase64: optString(data, 'transactionBase64', p),
+      swapTransaction: optString(data, 'swapTransaction', p),
+      recentBlockhash: optString(data, 'recentBlockhash', p),
+      lastValidBlockHeight: optNumber(data, 'lastValidBlockHeight', p),
+    },
+  }
+}
+
+export function parseCreateOrderResult(raw: unknown): CreateOrderResult {
+  const t = 'create_order_result'
+  const { success, data } = envelope(raw, t)
+  if (!data) return { type: t, success }
+  return { type: t, success, data: { orderId: optString(data, 'orderId', `${t}.data`) } }
+}
+
+export function parseSubmitSignedTxResult(raw: unknown): SubmitSignedTxResult {
+  const t = 'submit_signed_tx_result'
+  const { success, data } = envelope(raw, t)
+  if (!data) return { type: t, success }
+  return { type: t, success, data: { signature: optString(data, 'signature', `${t}.data`) } }
+}
+
+export function parseGetPositionsResult(raw: unknown): GetPositionsResult {
+  const t = 'get_positions_result'
+  const { success, data } = envelope(raw, t)
+  if (!data) return { type: t, success }
+  const p = `${t}.data`
+  const holdings = optArray(data, 'holdings', p)
+  return {
+    type: t,
+    success,
+    data: {
+      holdings: holdings?.map((h, i) => {
+        const hp = `${p}.holdings[${i}]`
+        const o = expectObject(h, hp)
+        return {
+          mint: optString(o, 'mint', hp),
+          isOpen: optBoolean(o, 'isOpen', hp),
+          openedAt: optNumber(o, 'openedAt', hp),
+          updatedAt: optNumber(o, 'updatedAt', hp),
+        }
+      }),
+    },
+  }
+}
+
+export function parseGetHistoryResult(raw: unknown): GetHistoryResult {
+  const t = 'get_history_result'
+  const { success, data } = envelope(raw, t)
+  if (!data) return { type: t, success }
+  const p = `${t}.data`
+  const history = optArray(data, 'history', p)
+  return {
+    type: t,
+    success,
+    data: {
+      history: history?.map((h, i) => {
+        const hp = `${p}.history[${i}]`
+        const o = expectObject(h, hp)
+        return {
+          mint: optString(o, 'mint', hp),
+          soldAt: optNumber(o, 'soldAt', hp),
+          sellSignature: optString(o, 'sellSignature', hp),
+        }
+      }),
+    },
+  }
+}
+
+export function parseGetSubscriptionStatusResult(raw: unknown): GetSubscriptionStatusResult {
+  const t = 'get_subscription_status_result'
+  const { success, data } = envelope(raw, t)
+  if (!data) return { type: t, success }
+  const p = `${t}.data`
+  const pricing = optObject(data, 'pricing', p)
+  const sub = optObject(data, 'subscription', p)
+  const pay = optObject(data, 'latestPayment', p)
+  return {
+    type: t,
+    success,
+    data: {
+      subscriptionWallet: optString(data, 'subscriptionWallet', p),
+      currencyMint: optString(data, 'currencyMint', p),
+      decimals: optNumber(data, 'decimals', p),
+      pricing: pricing
+        ? { pro: optNumber(pricing, 'pro', `${p}.pricing`), elite: optNumber(pricing, 'elite', `${p}.pricing`) }
+        : undefined,
+      active: optBoolean(data, 'active', p),
+      needsRenewalSoon: optBoolean(data, 'needsRenewalSoon', p),
+      overdue: optBoolean(data, 'overdue', p),
+      dueInMs: optNumber(data, 'dueInMs', p),
+      subscription: sub
+        ? {
+            tier: reqTier(sub, 'tier', `${p}.subscription`),
+            status: reqString(sub, 'status', `${p}.subscription`),
+            currentPeriodEndAt: reqNumber(sub, 'currentPeriodEndAt', `${p}.subscription`),
+            nextDueAt: reqNumber(sub, 'nextDueAt', `${p}.subscription`),
+          }
+        : undefined,
+      latestPayment: pay
+        ? {
+            id: reqNumber(pay, 'id', `${p}.latestPayment`),
+            tier: reqTier(pay, 'tier', `${p}.latestPayment`),
+            status: reqString(pay, 'status', `${p}.latestPayment`),
+            signature: optString(pay, 'signature', `${p}.latestPayment`),
+            createdAt: reqNumber(pay, 'createdAt', `${p}.latestPayment`),
+            confirmedAt: optNumber(pay, 'confirmedAt', `${p}.latestPayment`),
+            errorMessage: optString(pay, 'errorMessage', `${p}.latestPayment`),
+          }
+        : undefined,
+    },
+  }
+}
+
+export function parseBuildSubscriptionTxResult(raw: unknown): BuildSubscriptionTxResult {
+  const t = 'build_subscription_tx_result'
+  const { success, data } = envelope(raw, t)
+  if (!data) return { type: t, success }
+  const p = `${t}.data`
+  return {
+    type: t,
+    success,
+    data: {
+      attemptId: reqNumber(data, 'attemptId', p),
+      transactionBase64: reqString(data, 'transactionBase64', p),
+      recentBlockhash: optString(data, 'recentBlockhash', p),
+      lastValidBlockHeight: optNumber(data, 'lastValidBlockHeight', p),
+      tier: reqTier(data, 'tier', p),
+      amountBaseUnits: reqNumber(data, 'amountBaseUnits', p),
+      currencyMint: reqString(data, 'currencyMint', p),
+      subscriptionWallet: reqString(data, 'subscriptionWallet', p),
+    },
+  }
+}
+
+export function parseSubmitSubscriptionPaymentResult(raw: unknown): SubmitSubscriptionPaymentResult {
+  const t = 'submit_subscription_payment_result'
+  const { success, data } = envelope(raw, t)
+  if (!data) return { type: t, success }
+  const p = `${t}.data`
+  return {
+    type: t,
+    success,
+    data: { attemptId: reqNumber(data, 'attemptId', p), signature: reqString(data, 'signature', p) },
+  }
+}
+
+type ResponseSpec<K extends TradingRequestType> = {
+  responseType: TradingResponseMap[K]['type']
+  parse: (raw: unknown) => TradingResponseMap[K]
+}
+
+/** Response type + validator for every request type. */
+export const TRADING_RESPONSE_SPECS: { [K in TradingRequestType]: ResponseSpec<K> } = {
+  quote: { responseType: 'quote_result', parse: parseQuoteResult },
+  quote_batch: { responseType: 'quote_batch_result', parse: parseQuoteBatchResult },
+  create_order: { responseType: 'create_order_result', parse: parseCreateOrderResult },
+  build_swap_tx: { responseType: 'build_swap_tx_result', parse: parseBuildSwapTxResult },
+  submit_signed_tx: { responseType: 'submit_signed_tx_result', parse: parseSubmitSignedTxResult },
+  get_positions: { responseType: 'get_positions_result', parse: parseGetPositionsResult },
+  get_history: { responseType: 'get_history_result', parse: parseGetHistoryResult },
+  get_subscription_status: { responseType: 'get_subscription_status_result', parse: parseGetSubscriptionStatusResult },
+  build_subscription_tx: { responseType: 'build_subscription_tx_result', parse: parseBuildSubscriptionTxResult },
+  submit_subscription_payment: {
+    responseType: 'submit_subscription_payment_result',
+    parse: parseSubmitSubscriptionPaymentResult,
+  },
+}
+
+/**
+ * Validates an unsolicited server push. Returns null for frames that are not push events;
+ * throws TradingProtocolError for push events with the wrong shape.
+ */
+export function parseTradingPush(raw: unknown): TradingPushMessage | null {
+  if (!raw || typeof raw !== 'object') return null
+  const msg = raw as AnyJson
+  switch (msg.type) {
+    case 'order_update':
+    case 'position_update':
+      return { type: msg.type, data: optObject(msg, 'data', msg.type) }
+    case 'price_tick': {
+      const t = 'price_tick'
+      return {
+        type: t,
+        mint: reqString(msg, 'mint', t),
+        price: optNumber(msg, 'price', t),
+        priceUsd: optNumber(msg, 'priceUsd', t),
+        timestamp: optNumber(msg, 'timestamp', t),
+      }
+    }
+    default:
+      return null
+  }
+}
@@ -1,20 +1,153 @@
+import {
+  TRADING_RESPONSE_SPECS,
+  TradingProtocolError,
+  parseTradingPush,
+  type BuildSubscriptionTxParams,
+  type BuildSwapTxParams,
+  type CreateOrderParams,
+  type QuoteBatchParams,
+  type QuoteParams,
+  type SubmitSignedTxParams,
+  type SubmitSubscriptionPaymentParams,
+  type TradingPushMessage,
+  type TradingRequest,
+  type TradingRequestType,
+  type TradingResponseMap,
+} from './tradingProtocol'
+import {
+  RateLimiterError,
+  type RateLimitLane,
+  type RateLimiterStats,
+  type TokenBucketRateLimiter,
+} from './rateLimiter'
+import {
+  probeTradingEndpoint,
+  rankTradingEndpoints,
+  type TradingEndpointHealth,
+} from './tradingEndpoints'
+import type { WebSocketFactory } from './wsRecorder'
+
 export type WsClientOptions = {
   url: string
+  /**
+   * Backup endpoints. With more than one endpoint, each (re)connect probes /healthz and uses the
+   * healthiest, and a dropped connection fails over to the next one.
+   */
+  fallbackUrls?: string[]
   apiKey?: string
   authToken?: string
   wallet?: string
   signMessage?: (message: Uint8Array) => Promise<Uint8Array>
   timeoutMs?: number
+  /** Reconnect (and re-auth) automatically after an unexpected close. Default: true. */
+  autoReconnect?: boolean
+  reconnectMinMs?: number
+  reconnectMaxMs?: number
+  maxReconnectAttempts?: number
+  /** App-level ping cadence used for RTT and clock-offset estimates. 0 disables. Default: 15s. */
+  pingIntervalMs?: number
+  /**
+   * Shared client-side limiter for the server's per-user rate limit. Configured from the server
+   * hello or /healthz (`userRateLimit`) if the caller hasn't configured it already.
+   */
+  rateLimiter?: TokenBucketRateLimiter
+  /** Socket constructor override, used by the session recorder / replayer (see wsRecorder.ts). */
+  webSocketFactory?: WebSocketFactory
+}
+
+export type TradingWsConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting'
+
+export type TradingWsRttStats = {
+  count: number
+  lastMs: number
+  p50Ms: number
+  p95Ms: number
 }
 
 export type TradingWsStats = {
   messageCount: number
   lastMessageAt: number
   lastMessageType?: string
+  protocolErrorCount: number
+  lastProtocolError?: string
+  /** Rolling round-trip times keyed by request type (`ping` included). Kept across reconnects. */
+  rtt: Record<string, TradingWsRttStats>
+  /** Estimated server clock minus local clock, in ms (positive = server ahead). */
+  clockOffsetMs?: number
+  clockOffsetSource?: 'ping' | 'hello'
+  rateLimit?: RateLimiterStats
+  activeEndpoint: string
+  endpoints: TradingWsEndpointStats[]
+}
+
+export type TradingWsEndpointStats = {
+  url: string
+  active: boolean
+  healthy?: boolean
+  latencyMs?: number
+  checkedAt?: number
+  error?: string
+  /** When this client last authenticated on the endpoint (auth is per endpoint: a failover re-auths). */
+  authedAt?: number
+}
+
+export type TradingWsRequestOptions = {
+  /**
+   * Whether the request may be re-sent on a fresh socket after a reconnect.
+   * Defaults to true only for known idempotent request types (see REPLAYABLE_REQUEST_TYPES).
+   */
+  replay?: boolean
+  /** Aborting drops the pending request and rejects it with a TradingWsError (code `aborted`). */
+  signal?: AbortSignal
+  /** Rate-limit lane; defaults per request type (see REQUEST_LANES). */
+  priority?: RateLimitLane
+}
+
+export type TradingWsCallOptions = TradingWsRequestOptions & {
+  timeoutMs?: number
 }
 
 type AnyJson = Record<string, unknown>
 
+// Per-socket counters; getStats() adds the client-level latency, rate-limit and endpoint views.
+type SocketStats = Pick<TradingWsStats, 'messageCount' | 'lastMessageAt' | 'lastMessageType' | 'protocolErrorCount' | 'lastProtocolError'>
+
+type PendingRequest = {
+  predicate: (msg: AnyJson) => boolean
+  resolve: (msg: AnyJson) => void
+  reject: (err: Error) => void
+  timer: ReturnType<typeof setTimeout>
+  // Stamped outbound message; undefined for local waiters (e.g. the server hello).
+  message?: AnyJson
+  replay: boolean
+  // Socket generation the message was last sent on (-1 = queued, not sent yet).
+  gen: number
+  // performance.now() at the last send, for RTT samples.
+  sentAt?: number
+  detachAbort?: () => void
+}
+
+// Read-only requests that are safe to re-send after a reconnect.
+// Never add anything that moves funds or mutates orders (e.g. submit_signed_tx).
+const REPLAYABLE_REQUEST_TYPES = new Set(['quote', 'quote_batch', 'get_positions', 'get_history', 'get_subscription_status'])
+
+// Trade-critical requests pre-empt everything; unknown/read-only types default to `background`.
+const REQUEST_LANES: Record<string, RateLimitLane> = {
+  create_order: 'critical',
+  build_swap_tx: 'critical',
+  submit_signed_tx: 'critical',
+  build_subscription_tx: 'critical',
+  submit_subscription_payment: 'critical',
+  quote: 'interactive',
+}
+
+const RTT_WINDOW = 50
+const DEFAULT_QUOTE_BATCH_MAX_LEGS = 25
+const CLOCK_SAMPLE_WINDOW = 8
+// Error codes meaning the server doesn't know `ping`; anything else (rate limits, …) is transient.
+const PING_UNSUPPORTED_CODES = new Set(['unknown_type', 'unknown_message_type', 'unsupported_message_type'])
+const MAX_PING_BACKOFF_EXP = 5
+
 export class TradingWsError extends Error {
   readonly code?: string
 
@@ -25,9 +158,19 @@ export class TradingWsError extends Error {
   }
 }
 
+export function isTradingWsAbortError(e: unknown): boolean {
+  return e instanceof TradingWsError && e.code === 'aborted'
+}
+
 export class TradingWs {
   private ws: WebSocket | null = null
-  private readonly url: string
+  private readonly endpoints: string[]
+  private activeUrl: string
+  private readonly endpointHealth = new Map<string, TradingEndpointHealth>()
+  // Fingerprint each endpoint last authenticated with; a failover never inherits another endpoint's session.
+  private readonly endpointAuth = new Map<string, { fingerprint: string; authedAt: number }>()
+  // Endpoint that just dropped; the next reconnect ranks it last.
+  private droppedUrl: string | undefined
   private readonly apiKey?: string
   private readonly authToken?: string
   private readonly wallet?: string
@@ -36,27 +179,72 @@ export class TradingWs {
   private authed = false
   private readonly authFingerprint: string
 
+  private readonly autoReconnect: boolean
+  private readonly reconnectMinMs: number
+  private readonly reconnectMaxMs: number
+  private readonly maxReconnectAttempts: number
+  private readonly pingIntervalMs: number
+  private readonly rateLimiter?: TokenBucketRateLimiter
+  private readonly webSocketFactory?: WebSocketFactory
+  private healthzRateLimitRequested = false
+
+  private state: TradingWsConnectionState = 'disconnected'
+  private readonly stateListeners = new Set<(state: TradingWsConnectionState) => void>()
+  private connectPromise: Promise<void> | null = null
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  private reconnectAttempt = 0
+  private manualClose = false
+  private socketGen = 0
+  private socketCleanup: (() => void) | null = null
+
   private helloCache: AnyJson | null = null
 
   private readonly messageListeners = new Set<(msg: AnyJson) => void>()
+  private readonly pushListeners = new Set<(msg: TradingPushMessage) => void>()
 
-  private stats: TradingWsStats = { messageCount: 0, lastMessageAt: 0, lastMessageType: undefined }
-  private statsListener: ((event: MessageEvent) => void) | null = null
+  // In-flight requests keyed by the client-generated requestId (insertion order = send order).
+  private readonly pending = new Map<string, PendingRequest>()
+  private readonly requestIdPrefix = Math.random().toString(36).slice(2, 8)
+  private requestSeq = 0
+  // Once the server echoes a requestId we stop routing un-tagged errors to arbitrary requests.
+  private serverEchoesRequestId = false
+
+  private stats: SocketStats = TradingWs.emptyStats()
+
+  // Latency bookkeeping lives outside `stats` so it survives the per-socket stats reset.
+  private readonly rttSamples = new Map<string, number[]>()
+  private clockSamples: Array<{ rttMs: number; offsetMs: number }> = []
+  private helloClockOffsetMs: number | undefined
+  private pingTimer: ReturnType<typeof setInterval> | null = null
+  // Set when the server rejects `ping`; cleared on the next socket.
+  private pingUnsupported = false
+  // Unanswered pings in a row, and ping ticks left to skip because of them (cleared on the next socket).
+  private pingTimeouts = 0
+  private pingSkip = 0
 
   constructor(opts: WsClientOptions) {
-    this.url = opts.url
+    this.endpoints = Array.from(new Set([opts.url, ...(opts.fallbackUrls ?? [])].filter(Boolean)))
+    this.activeUrl = opts.url
     this.apiKey = opts.apiKey
     this.authToken = opts.authToken
     this.wallet = opts.wallet
     this.signMessage = opts.signMessage
     this.timeoutMs = opts.timeoutMs ?? 20_000
+    this.autoReconnect = opts.autoReconnect ?? true
+    this.reconnectMinMs = opts.reconnectMinMs ?? 500
+    this.reconnectMaxMs = opts.reconnectMaxMs ?? 15_000
+    this.maxReconnectAttempts = opts.maxReconnectAttempts ?? 10
+    this.pingIntervalMs = opts.pingIntervalMs ?? 15_000
+    this.rateLimiter = opts.rateLimiter
+    this.webSocketFactory = opts.webSocketFactory
 
     // Used by callers to detect when a reconnect is required.
     this.authFingerprint = [this.apiKey || '', this.authToken || '', this.wallet || ''].join('|')
   }
 
+  /** True once the socket is open and the auth handshake has completed. */
   get isOpen() {
-    return this.ws?.readyState === WebSocket.OPEN
+    return this.state === 'connected' && this.socketOpen
   }
 
   get isAuthed() {
@@ -67,14 +255,74 @@ export class TradingWs {
     return this.authFingerprint
   }
 
+  get connectionState(): TradingWsConnectionState {
+    return this.state
+  }
+
+  /** Endpoint of the current (or last attempted) socket. */
+  get endpointUrl() {
+    return this.activeUrl
+  }
+
+  private get socketOpen() {
+    return this.ws?.readyState === WebSocket.OPEN
+  }
+
   getStats(): TradingWsStats {
-    return { ...this.stats }
+    const rtt: Record<string, TradingWsRttStats> = {}
+    for (const [type, samples] of this.rttSamples) {
+      if (samples.length > 0) rtt[type] = TradingWs.summarizeRtt(samples)
+    }
+    const clock = this.bestClockSample()
+    return {
+      ...this.stats,
+      rtt,
+      ...(clock
+        ? { clockOffsetMs: clock.offsetMs, clockOffsetSource: 'ping' as const }
+        : this.helloClockOffsetMs !== undefined
+          ? { clockOffsetMs: this.helloClockOffsetMs, clockOffsetSource: 'hello' as const }
+          : {}),
+      ...(this.rateLimiter ? { rateLimit: this.rateLimiter.getStats() } : {}),
+      activeEndpoint: this.activeUrl,
+      endpoints: this.endpoints.map((url) => {
+        const h = this.endpointHealth.get(url)
+        const auth = this.endpointAuth.get(url)
+        return {
+          url,
+          active: url === this.activeUrl,
+          healthy: h?.healthy,
+          latencyMs: h?.latencyMs,
+          checkedAt: h?.checkedAt,
+          error: h?.error,
+          authedAt: auth && auth.fingerprint === this.authFingerprint ? auth.authedAt : undefined,
+        }
+      }),
+    }
+  }
+
+  /** Local timestamp converted to the server clock using the current offset estimate. */
+  toServerTime(localMs: number = Date.now()): number {
+    return localMs + (this.getStats().clockOffsetMs ?? 0)
   }
 
   getHello(): AnyJson | null {
     return this.helloCache
   }
 
+  /**
+   * Max legs per `quote_batch` if the server hello advertises it, otherwise 0.
+   * Accepts `data.features: ['quote_batch']` or `data.quoteBatch: { maxLegs }`.
+   */
+  get quoteBatchMaxLegs(): number {
+    const data = this.helloCache && typeof this.helloCache.data === 'object' && this.helloCache.data ? (this.helloCache.data as AnyJson) : null
+    if (!data) return 0
+    const cfg = typeof data.quoteBatch === 'object' && data.quoteBatch ? (data.quoteBatch as { maxLegs?: unknown }) : null
+    if (cfg) return typeof cfg.maxLegs === 'number' && cfg.maxLegs > 0 ? Math.floor(cfg.maxLegs) : DEFAULT_QUOTE_BATCH_MAX_LEGS
+    const features = Array.isArray(data.features) ? data.features : []
+    return features.includes('quote_batch') ? DEFAULT_QUOTE_BATCH_MAX_LEGS : 0
+  }
+
+  /** Listeners live on the client (not the socket), so they survive reconnects. */
   onMessage(listener: (msg: AnyJson) => void): () => void {
     this.messageListeners.add(listener)
     return () => {
@@ -82,49 +330,229 @@ export class TradingWs {
     }
   }
 
+  /** Validated server push events (order/position updates, price ticks). Malformed pushes are dropped. */
+  onPush(listener: (msg: TradingPushMessage) => void): () => void {
+    this.pushListeners.add(listener)
+    return () => {
+      this.pushListeners.delete(listener)
+    }
+  }
+
+  onStateChange(listener: (state: TradingWsConnectionState) => void): () => void {
+    this.stateListeners.add(listener)
+    return () => {
+      this.stateListeners.delete(listener)
+    }
+  }
+
   async connect(): Promise<void> {
     if (this.isOpen) return
+    if (this.connectPromise) return this.connectPromise
 
-    this.authed = false
-    this.helloCache = null
+    this.manualClose = false
+    const reconnecting = this.state === 'reconnecting'
+    if (this.reconnectTimer) {
+      // Caller wants the socket now; skip the remaining backoff delay.
+      clearTimeout(this.reconnectTimer)
+      this.reconnectTimer = null
+    }
+    return this.runConnect(reconnecting ? 'reconnecting' : 'connecting')
+  }
+
+  close() {
+    this.manualClose = true
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer)
+    this.reconnectTimer = null
+    this.teardownSocket()
+    this.rejectAllPending(new Error('WebSocket not connected'))
+    this.setState('disconnected')
+  }
+
+  /**
+   * Sends a message, stamping it with a client-generated `requestId` unless the caller
+   * already supplied one. Returns the requestId used.
+   */
+  send(message: AnyJson): string {
+    if (!this.ws || !this.socketOpen) {
+      throw new Error('WebSocket not connected')
+    }
+    const requestId = typeof message.requestId === 'string' && message.requestId ? message.requestId : this.nextRequestId()
+    this.ws.send(JSON.stringify({ ...message, requestId }))
+    return requestId
+  }
+
+  /**
+   * While reconnecting, replayable requests are queued and sent once the new socket has re-authed;
+   * anything else fails fast with "WebSocket not connected".
+   *
+   * With a rate limiter, the request first waits for a token in its lane; that wait counts
+   * against `timeoutMs`.
+   */
+  async request<T extends AnyJson>(
+    message: AnyJson,
+    predicate: (msg: AnyJson) => msg is T,
+    timeoutMs: number = this.timeoutMs,
+    opts?: TradingWsRequestOptions,
+  ): Promise<T> {
+    if (opts?.signal?.aborted) throw TradingWs.abortError()
+    const replay = opts?.replay ?? REPLAYABLE_REQUEST_TYPES.has(String(message.type))
+    this.assertCanSend(replay)
+
+    const lane = opts?.priority ?? REQUEST_LANES[String(message.type)] ?? 'background'
+    const waitedMs = await this.acquireRateLimit(lane, timeoutMs, opts?.signal)
+    // The socket may have dropped while we were waiting for a token.
+    const ready = this.assertCanSend(replay)
+
+    try {
+      return await this.dispatch(message, predicate, Math.max(1, timeoutMs - waitedMs), replay, ready, opts?.signal)
+    } catch (e) {
+      if (e instanceof TradingWsError && (e.code === 'rate_limited_user' || e.message === 'rate_limited_user')) {
+        this.rateLimiter?.penalize()
+      }
+      throw e
+    }
+  }
+
+  quote(params: QuoteParams, opts?: TradingWsCallOptions) {
+    return this.call<'quote'>({ type: 'quote', params }, opts)
+  }
+
+  /** Check `quoteBatchMaxLegs` first; servers without batch support reject the message type. */
+  quoteBatch(params: QuoteBatchParams, opts?: TradingWsCallOptions) {
+    return this.call<'quote_batch'>({ type: 'quote_batch', params }, opts)
+  }
+
+  createOrder(params: CreateOrderParams, opts?: TradingWsCallOptions) {
+    return this.call<'create_order'>({ type: 'create_order', params }, opts)
+  }
+
+  buildSwapTx(params: BuildSwapTxParams, opts?: TradingWsCallOptions) {
+    return this.call<'build_swap_tx'>({ type: 'build_swap_tx', params }, opts)
+  }
 
-    this.ws = new WebSocket(this.url)
+  submitSignedTx(params: SubmitSignedTxParams, opts?: TradingWsCallOptions) {
+    return this.call<'submit_signed_tx'>({ type: 'submit_signed_tx', params }, opts)
+  }
+
+  getPositions(opts?: TradingWsCallOptions) {
+    return this.call<'get_positions'>({ type: 'get_positions' }, opts)
+  }
+
+  getHistory(opts?: TradingWsCallOptions) {
+    return this.call<'get_history'>({ type: 'get_history' }, opts)
+  }
+
+  getSubscriptionStatus(opts?: TradingWsCallOptions) {
+    return this.call<'get_subscription_status'>({ type: 'get_subscription_status' }, opts)
+  }
+
+  buildSubscriptionTx(params: BuildSubscriptionTxParams, opts?: TradingWsCallOptions) {
+    return this.call<'build_subscription_tx'>({ type: 'build_subscription_tx', params }, opts)
+  }
 
-    // Attach a lightweight listener for Debug Portal metrics.
-    // This does not affect request/response behavior (it only samples metadata).
-    this.stats = { messageCount: 0, lastMessageAt: 0, lastMessageType: undefined }
-    this.statsListener = (event: MessageEvent) => {
-      this.stats.messageCount += 1
-      this.stats.lastMessageAt = Date.now()
+  submitSubscriptionPayment(params: SubmitSubscriptionPaymentParams, opts?: TradingWsCallOptions) {
+    return this.call<'submit_subscription_payment'>({ type: 'submit_subscription_payment', params }, opts)
+  }
+
+  /** Sends a protocol request and validates the response; malformed frames reject with code `invalid_response`. */
+  private async call<K extends TradingRequestType>(
+    req: Extract<TradingRequest, { type: K }>,
+    opts?: TradingWsCallOptions,
+  ): Promise<TradingResponseMap[K]> {
+    const spec = TRADING_RESPONSE_SPECS[req.type as K]
+    const raw = await this.request(
+      req as unknown as AnyJson,
+      (m): m is AnyJson => m.type === spec.responseType,
+      opts?.timeoutMs ?? this.timeoutMs,
+      opts,
+    )
+    try {
+      return spec.parse(raw)
+    } catch (e) {
+      if (!(e instanceof TradingProtocolError)) throw e
+      this.recordProtocolError(e)
+      throw new TradingWsError(`Malformed server response: ${e.message}`, 'invalid_response')
+    }
+  }
+
+  private async runConnect(phase: 'connecting' | 'reconnecting'): Promise<void> {
+    this.setState(phase)
+    const attempt = (async () => {
       try {
-        const parsed = JSON.parse(String(event.data)) as AnyJson
-        const t = (parsed as { type?: unknown }).type
-        this.stats.lastMessageType = typeof t === 'string' ? t : undefined
-
-        // Cache the server hello so auth can safely consume it even if it arrives
-        // before the auth-specific listener is attached.
-        if (this.stats.lastMessageType === 'hello') {
-          this.helloCache = parsed
+        await this.connectBestEndpoint(phase === 'reconnecting' ? this.droppedUrl : undefined)
+        this.droppedUrl = undefined
+        this.reconnectAttempt = 0
+        this.setState('connected')
+        this.flushQueued()
+        this.startPing()
+        if (this.rateLimiter && !this.rateLimiter.isConfigured) void this.loadRateLimitFromHealthz()
+      } catch (e) {
+        this.teardownSocket()
+        const err = e instanceof Error ? e : new Error(String(e))
+        if (phase === 'reconnecting' && !this.manualClose && TradingWs.isRetryable(err)) {
+          this.scheduleReconnect()
+        } else {
+          this.rejectAllPending(err)
+          this.setState('disconnected')
         }
+        throw err
+      } finally {
+        this.connectPromise = null
+      }
+    })()
+    this.connectPromise = attempt
+    return attempt
+  }
 
-        if (this.messageListeners.size > 0) {
-          for (const fn of this.messageListeners) {
-            try {
-              fn(parsed)
-            } catch {
-              // ignore
-            }
-          }
-        }
-      } catch {
-        // ignore
+  /** Tries endpoints best-first; only transport failures move on to the next one. */
+  private async connectBestEndpoint(avoid?: string): Promise<void> {
+    const candidates = this.endpoints.length > 1 ? await this.rankEndpoints(avoid) : this.endpoints
+    let lastErr: unknown = new Error('WebSocket not connected')
+    for (const url of candidates) {
+      if (this.manualClose) break
+      this.activeUrl = url
+      try {
+        await this.openAndHandshake()
+        if (this.authed) this.endpointAuth.set(url, { fingerprint: this.authFingerprint, authedAt: Date.now() })
+        return
+      } catch (e) {
+        lastErr = e
+        this.teardownSocket()
+        if (e instanceof Error && !TradingWs.isRetryable(e)) throw e
       }
     }
-    this.ws.addEventListener('message', this.statsListener)
+    throw lastErr
+  }
 
-    await new Promise<void>((resolve, reject) => {
-      if (!this.ws) return reject(new Error('WebSocket not created'))
+  private async rankEndpoints(avoid?: string): Promise<string[]> {
+    const results = await Promise.all(this.endpoints.map((url) => probeTradingEndpoint(url)))
+    for (const h of results) this.endpointHealth.set(h.url, h)
+    return rankTradingEndpoints(this.endpoints, this.endpointHealth, avoid)
+  }
 
+  private async openAndHandshake(): Promise<void> {
+    this.authed = false
+    this.helloCache = null
+    this.pingUnsupported = false
+    this.pingTimeouts = 0
+    this.pingSkip = 0
+
+    const ws = this.webSocketFactory ? this.webSocketFactory(this.activeUrl) : new WebSocket(this.activeUrl)
+    this.ws = ws
+    this.socketGen += 1
+
+    // Attach a lightweight listener for Debug Portal metrics and request routing.
+    this.stats = TradingWs.emptyStats()
+    const onMessage = (event: MessageEvent) => this.handleFrame(event)
+    const onClose = () => this.handleSocketClose(ws)
+    ws.addEventListener('message', onMessage)
+    ws.addEventListener('close', onClose)
+    this.socketCleanup = () => {
+      ws.removeEventListener('message', onMessage)
+      ws.removeEventListener('close', onClose)
+    }
+
+    await new Promise<void>((resolve, reject) => {
       const onOpen = () => {
         cleanup()
         resolve()
@@ -133,71 +561,85 @@ export class TradingWs {
         cleanup()
         reject(new Error('WebSocket connection error'))
       }
+      const onEarlyClose = () => {
+        cleanup()
+        reject(new Error('WebSocket not connected'))
+      }
 
       const cleanup = () => {
-        this.ws?.removeEventListener('open', onOpen)
-        this.ws?.removeEventListener('error', onError)
+        ws.removeEventListener('open', onOpen)
+        ws.removeEventListener('error', onError)
+        ws.removeEventListener('close', onEarlyClose)
       }
 
-      this.ws.addEventListener('open', onOpen)
-      this.ws.addEventListener('error', onError)
+      ws.addEventListener('open', onOpen)
+      ws.addEventListener('error', onError)
+      ws.addEventListener('close', onEarlyClose)
     })
 
-      // Always read server hello first so we know what auth is required.
-      const hello = this.helloCache
-        ? this.helloCache
-        : await this.waitFor(
-            (m): m is AnyJson => m.type === 'hello',
-            this.timeoutMs,
-          )
-
-      const authObj =
-        typeof (hello as AnyJson)?.data === 'object' && (hello as AnyJson).data
-          ? (((hello as AnyJson).data as AnyJson).auth as AnyJson)
-          : null
-      const walletSigObj = authObj && typeof authObj.walletSig === 'object' && authObj.walletSig ? (authObj.walletSig as AnyJson) : null
-
-      const walletSigRequired = Boolean(walletSigObj && (walletSigObj as { required?: unknown }).required === true)
-      const challenge =
-        walletSigObj && typeof (walletSigObj as { challenge?: unknown }).challenge === 'string'
-          ? String((walletSigObj as { challenge: string }).challenge)
-          : ''
-
-      // Prefer wallet-signature auth when available (avoids JWT expiry/caching issues).
-      if (this.wallet && this.signMessage && challenge.trim().length > 0) {
-        const encoder = new TextEncoder()
-        const signatureBytes = await this.signMessage(encoder.encode(challenge))
-        const signatureBase64 = TradingWs.bytesToBase64(signatureBytes)
-
-        const auth = await this.request(
-          {
-            type: 'auth',
-            wallet: this.wallet,
-            signatureBase64,
-          },
-          (m): m is AnyJson => m.type === 'auth_result',
+    // Always read server hello first so we know what auth is required.
+    const hello = this.helloCache
+      ? this.helloCache
+      : await this.waitFor(
+          (m): m is AnyJson => m.type === 'hello',
           this.timeoutMs,
         )
 
-        if (!auth || typeof auth !== 'object' || !('success' in auth) || (auth as { success?: unknown }).success !== true) {
-          const msg =
-            typeof (auth as { message?: unknown }).message === 'string'
-              ? (auth as { message: string }).message
-              : 'Trading API auth failed'
-          throw new TradingWsError(msg, 'auth_failed')
-        }
+    const authObj =
+      typeof (hello as AnyJson)?.data === 'object' && (hello as AnyJson).data
+        ? (((hello as AnyJson).data as AnyJson).auth as AnyJson)
+        : null
+    const walletSigObj = authObj && typeof authObj.walletSig === 'object' && authObj.walletSig ? (authObj.walletSig as AnyJson) : null
 
-        this.authed = true
-        return
+    const walletSigRequired = Boolean(walletSigObj && (walletSigObj as { required?: unknown }).required === true)
+    const challenge =
+      walletSigObj && typeof (walletSigObj as { challenge?: unknown }).challenge === 'string'
+        ? String((walletSigObj as { challenge: string }).challenge)
+        : ''
+
+    // Prefer wallet-signature auth when available (avoids JWT expiry/caching issues).
+    if (this.wallet && this.signMessage && challenge.trim().length > 0) {
+      const encoder = new TextEncoder()
+      let signatureBytes: Uint8Array
+      try {
+        signatureBytes = await this.signMessage(encoder.encode(challenge))
+      } catch (e) {
+        // Surface as a TradingWsError so a rejected wallet prompt is never retried automatically.
+        throw new TradingWsError(e instanceof Error ? e.message : 'Wallet signature rejected', 'wallet_sig_rejected')
       }
+      const signatureBase64 = TradingWs.bytesToBase64(signatureBytes)
+
+      const auth = await this.dispatch(
+        {
+          type: 'auth',
+          wallet: this.wallet,
+          signatureBase64,
+        },
+        (m): m is AnyJson => m.type === 'auth_result',
+        this.timeoutMs,
+        false,
+        true,
+      )
 
-      // If the server requires wallet-signature auth, never attempt JWT/legacy.
-      if (walletSigRequired) {
-        throw new TradingWsError('Signature needed in wallet', 'wallet_sig_required')
+      if (!auth || typeof auth !== 'object' || !('success' in auth) || (auth as { success?: unknown }).success !== true) {
+        const msg =
+          typeof (auth as { message?: unknown }).message === 'string'
+            ? (auth as { message: string }).message
+            : 'Trading API auth failed'
+        throw new TradingWsError(msg, 'auth_failed')
       }
 
+      this.authed = true
+      return
+    }
+
+    // If the server requires wallet-signature auth, never attempt JWT/legacy.
+    if (walletSigRequired) {
+      throw new TradingWsError('Signature needed in wallet', 'wallet_sig_required')
+    }
+
     if (this.apiKey || this.authToken) {
-      const auth = await this.request(
+      const auth = await this.dispatch(
         {
           type: 'auth',
           ...(this.apiKey ? { apiKey: this.apiKey } : {}),
@@ -205,6 +647,8 @@ export class TradingWs {
         },
         (m): m is AnyJson => m.type === 'auth_result',
         this.timeoutMs,
+        false,
+        true,
       )
 
       if (!auth || typeof auth !== 'object' || !('success' in auth) || (auth as { success?: unknown }).success !== true) {
@@ -219,140 +663,453 @@ export class TradingWs {
     }
   }
 
-  close() {
-    if (this.ws && this.statsListener) {
-      this.ws.removeEventListener('message', this.statsListener)
+  private handleFrame(event: MessageEvent) {
+    this.stats.messageCount += 1
+    this.stats.lastMessageAt = Date.now()
+    try {
+      const parsed = JSON.parse(String(event.data)) as AnyJson
+      const t = (parsed as { type?: unknown }).type
+      this.stats.lastMessageType = typeof t === 'string' ? t : undefined
+
+      // Cache the server hello so auth can safely consume it even if it arrives
+      // before the auth-specific listener is attached.
+      if (this.stats.lastMessageType === 'hello') {
+        this.helloCache = parsed
+        this.recordHelloClock(parsed)
+        this.applyHelloRateLimit(parsed)
+      }
+
+      this.routeToPending(parsed)
+
+      if (this.messageListeners.size > 0) {
+        for (const fn of this.messageListeners) {
+          try {
+            fn(parsed)
+          } catch {
+            // ignore
+          }
+        }
+      }
+
+      if (this.pushListeners.size > 0) this.emitPush(parsed)
+    } catch {
+      // ignore
+    }
+  }
+
+  private emitPush(parsed: AnyJson) {
+    let push: TradingPushMessage | null
+    try {
+      push = parseTradingPush(parsed)
+    } catch (e) {
+      if (e instanceof TradingProtocolError) this.recordProtocolError(e)
+      return
     }
-    this.ws?.close()
+    if (!push) return
+    for (const fn of this.pushListeners) {
+      try {
+        fn(push)
+      } catch {
+        // ignore
+      }
+    }
+  }
+
+  private recordProtocolError(e: TradingProtocolError) {
+    this.stats.protocolErrorCount += 1
+    this.stats.lastProtocolError = e.message
+  }
+
+  private handleSocketClose(ws: WebSocket) {
+    if (this.ws !== ws) return
+    this.detachSocket()
+
+    // Non-idempotent requests can't be safely re-sent; fail them now.
+    this.rejectPending((p) => !p.replay, new Error('WebSocket not connected'))
+
+    // A handshake in progress fails on its own and decides whether to retry.
+    if (this.connectPromise) return
+
+    if (this.manualClose || !this.autoReconnect || this.state !== 'connected') {
+      this.rejectAllPending(new Error('WebSocket not connected'))
+      this.setState('disconnected')
+      return
+    }
+
+    this.droppedUrl = this.activeUrl
+    this.setState('reconnecting')
+    this.scheduleReconnect()
+  }
+
+  private scheduleReconnect() {
+    if (this.reconnectTimer) return
+    if (this.reconnectAttempt >= this.maxReconnectAttempts) {
+      this.rejectAllPending(new TradingWsError('Trading API reconnect failed', 'reconnect_exhausted'))
+      this.setState('disconnected')
+      return
+    }
+
+    // Exponential backoff with "equal jitter": half fixed, half random.
+    const base = Math.min(this.reconnectMaxMs, this.reconnectMinMs * 2 ** this.reconnectAttempt)
+    const delay = Math.floor(base / 2 + Math.random() * (base / 2))
+    this.reconnectAttempt += 1
+    this.setState('reconnecting')
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null
+      if (this.manualClose || this.connectPromise) return
+      this.runConnect('reconnecting').catch(() => {
+        // runConnect already scheduled the next attempt (or gave up).
+      })
+    }, delay)
+  }
+
+  private detachSocket() {
+    this.stopPing()
+    this.socketCleanup?.()
+    this.socketCleanup = null
     this.ws = null
     this.authed = false
-    this.statsListener = null
   }
 
-  send(message: AnyJson) {
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
-      throw new Error('WebSocket not connected')
+  private teardownSocket() {
+    const ws = this.ws
+    this.detachSocket()
+    try {
+      ws?.close()
+    } catch {
+      // ignore
     }
-    this.ws.send(JSON.stringify(message))
   }
 
-  async request<T extends AnyJson>(
+  private setState(next: TradingWsConnectionState) {
+    if (this.state === next) return
+    this.state = next
+    for (const fn of this.stateListeners) {
+      try {
+        fn(next)
+      } catch {
+        // ignore
+      }
+    }
+  }
+
+  private async dispatch<T extends AnyJson>(
     message: AnyJson,
+    predicate: (msg: AnyJson) => msg is T,
+    timeoutMs: number,
+    replay: boolean,
+    sendNow: boolean,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    const requestId = this.nextRequestId()
+    const stamped = { ...message, requestId }
+    const responsePromise = this.registerPending<T>(requestId, predicate, timeoutMs, stamped, replay)
+    if (signal) {
+      const entry = this.pending.get(requestId)
+      const onAbort = () => this.settlePending(requestId)?.reject(TradingWs.abortError())
+      signal.addEventListener('abort', onAbort, { once: true })
+      if (entry) entry.detachAbort = () => signal.removeEventListener('abort', onAbort)
+    }
+    if (sendNow) this.sendPending(requestId)
+    return responsePromise
+  }
+
+  private async waitFor<T extends AnyJson>(
     predicate: (msg: AnyJson) => msg is T,
     timeoutMs: number = this.timeoutMs,
   ): Promise<T> {
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+    if (!this.socketOpen) {
       throw new Error('WebSocket not connected')
     }
+    return this.registerPending<T>(`wait-${this.nextRequestId()}`, predicate, timeoutMs, undefined, false)
+  }
 
-    const responsePromise = new Promise<T>((resolve, reject) => {
-      if (!this.ws) return reject(new Error('WebSocket not connected'))
+  private nextRequestId(): string {
+    this.requestSeq += 1
+    return `${this.requestIdPrefix}-${this.requestSeq}`
+  }
 
-      const timeout = setTimeout(() => {
-        cleanup()
+  private registerPending<T extends AnyJson>(
+    key: string,
+    predicate: (msg: AnyJson) => msg is T,
+    timeoutMs: number,
+    message: AnyJson | undefined,
+    replay: boolean,
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      // The deadline covers the whole request, including any time spent waiting on a reconnect.
+      const timer = setTimeout(() => {
+        this.settlePending(key)
         reject(new Error('WebSocket request timed out'))
       }, timeoutMs)
 
-      const onMessage = (event: MessageEvent) => {
-        try {
-          const parsed = JSON.parse(String(event.data)) as AnyJson
-          if (predicate(parsed)) {
-            cleanup()
-            resolve(parsed)
-          } else if (parsed.type === 'error') {
-            // Surface API errors even if not exactly the awaited response type.
-            cleanup()
-            const code = typeof parsed.code === 'string' ? parsed.code : undefined
-            const message = String(parsed.message || 'Trading API error')
-            reject(new TradingWsError(message, code))
-          }
-        } catch {
-          // ignore
-        }
-      }
+      this.pending.set(key, {
+        predicate,
+        resolve: (msg) => resolve(msg as T),
+        reject,
+        timer,
+        message,
+        replay,
+        gen: message ? -1 : this.socketGen,
+      })
+    })
+  }
 
-      const onClose = () => {
-        cleanup()
-        reject(new Error('WebSocket not connected'))
-      }
+  private sendPending(key: string) {
+    const entry = this.pending.get(key)
+    if (!entry || !entry.message) return
+    try {
+      if (!this.ws || !this.socketOpen) throw new Error('WebSocket not connected')
+      this.ws.send(JSON.stringify(entry.message))
+      entry.gen = this.socketGen
+      entry.sentAt = performance.now()
+    } catch (e) {
+      this.settlePending(key)
+      entry.reject(e instanceof Error ? e : new Error(String(e)))
+    }
+  }
 
-      const onError = () => {
-        cleanup()
-        reject(new Error('WebSocket connection error'))
-      }
+  /** Sends queued and replayable requests that have not been sent on the current socket. */
+  private flushQueued() {
+    for (const [key, entry] of Array.from(this.pending)) {
+      if (entry.message && entry.gen !== this.socketGen) this.sendPending(key)
+    }
+  }
 
-      const cleanup = () => {
-        clearTimeout(timeout)
-        this.ws?.removeEventListener('message', onMessage)
-        this.ws?.removeEventListener('close', onClose)
-        this.ws?.removeEventListener('error', onError)
+  private settlePending(key: string): PendingRequest | null {
+    const entry = this.pending.get(key)
+    if (!entry) return null
+    clearTimeout(entry.timer)
+    entry.detachAbort?.()
+    this.pending.delete(key)
+    return entry
+  }
+
+  private rejectPending(match: (entry: PendingRequest) => boolean, err: Error) {
+    for (const [key, entry] of Array.from(this.pending)) {
+      if (!match(entry)) continue
+      this.settlePending(key)
+      entry.reject(err)
+    }
+  }
+
+  private rejectAllPending(err: Error) {
+    this.rejectPending(() => true, err)
+  }
+
+  private routeToPending(msg: AnyJson) {
+    if (this.pending.size === 0) return
+
+    const echoedId = typeof msg.requestId === 'string' ? msg.requestId : ''
+    if (echoedId) {
+      this.serverEchoesRequestId = true
+      const entry = this.pending.get(echoedId)
+      if (!entry) return
+      if (msg.type === 'error') {
+        this.settlePending(echoedId)
+        entry.reject(TradingWs.errorFromMessage(msg))
+      } else if (entry.predicate(msg)) {
+        this.settlePending(echoedId)
+        this.recordRtt(entry)
+        entry.resolve(msg)
       }
+      return
+    }
 
-      this.ws.addEventListener('message', onMessage)
-      this.ws.addEventListener('close', onClose)
-      this.ws.addEventListener('error', onError)
-    })
+    // Fallback for servers that don't echo requestId: first (oldest) waiter on this socket
+    // whose predicate matches.
+    for (const [key, entry] of this.pending) {
+      if (entry.gen !== this.socketGen) continue
+      if (!entry.predicate(msg)) continue
+      this.settlePending(key)
+      this.recordRtt(entry)
+      entry.resolve(msg)
+      return
+    }
 
-    this.send(message)
-    return responsePromise
+    // An un-tagged error can only be attributed when the server doesn't tag errors at all;
+    // then the oldest request sent is the best guess. Local waiters (hello) keep legacy behavior.
+    if (msg.type === 'error' && !this.serverEchoesRequestId) {
+      for (const [key, entry] of this.pending) {
+        if (entry.gen !== this.socketGen) continue
+        if (!entry.message && this.pending.size > 1) continue
+        // A ping that swallowed someone else's error would also turn pings off for good.
+        if (entry.message?.type === 'ping') continue
+        this.settlePending(key)
+        entry.reject(TradingWs.errorFromMessage(msg))
+        return
+      }
+    }
   }
 
-  private async waitFor<T extends AnyJson>(
-    predicate: (msg: AnyJson) => msg is T,
-    timeoutMs: number = this.timeoutMs,
-  ): Promise<T> {
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+  /** Returns whether the request can go out immediately (false = queue until reconnected). */
+  private assertCanSend(replay: boolean): boolean {
+    const ready = this.state === 'connected' && this.socketOpen
+    const canQueue = replay && (this.state === 'connecting' || this.state === 'reconnecting')
+    if (!ready && !canQueue) {
       throw new Error('WebSocket not connected')
     }
+    return ready
+  }
 
-    const responsePromise = new Promise<T>((resolve, reject) => {
-      if (!this.ws) return reject(new Error('WebSocket not connected'))
+  /** Waits for a rate-limit token and returns how long that took. */
+  private async acquireRateLimit(lane: RateLimitLane, timeoutMs: number, signal?: AbortSignal): Promise<number> {
+    if (!this.rateLimiter) return 0
+    const started = Date.now()
+    try {
+      await this.rateLimiter.acquire(lane, { signal, timeoutMs })
+    } catch (e) {
+      if (e instanceof RateLimiterError && e.code === 'aborted') throw TradingWs.abortError()
+      throw new TradingWsError('Client rate limit: request queued too long', 'rate_limited_local')
+    }
+    return Date.now() - started
+  }
 
-      const timeout = setTimeout(() => {
-        cleanup()
-        reject(new Error('WebSocket request timed out'))
-      }, timeoutMs)
+  private applyHelloRateLimit(hello: AnyJson) {
+    if (!this.rateLimiter || this.rateLimiter.isConfigured) return
+    const data = typeof hello.data === 'object' && hello.data ? (hello.data as AnyJson) : null
+    const limits = data && typeof data.limits === 'object' && data.limits ? (data.limits as AnyJson) : null
+    const raw = limits?.userRateLimit ?? data?.userRateLimit
+    const config = TradingWs.rateLimitConfigFrom(raw)
+    if (config !== undefined) this.rateLimiter.configure(config)
+  }
 
-      const onMessage = (event: MessageEvent) => {
-        try {
-          const parsed = JSON.parse(String(event.data)) as AnyJson
-          if (predicate(parsed)) {
-            cleanup()
-            resolve(parsed)
-          } else if (parsed.type === 'error') {
-            cleanup()
-            const code = typeof parsed.code === 'string' ? parsed.code : undefined
-            const message = String(parsed.message || 'Trading API error')
-            reject(new TradingWsError(message, code))
-          }
-        } catch {
-          // ignore
-        }
-      }
+  // Older servers only publish limits on /healthz. One best-effort fetch per client (reuses the failover probe if fresh).
+  private async loadRateLimitFromHealthz() {
+    if (this.healthzRateLimitRequested || !this.rateLimiter) return
+    this.healthzRateLimitRequested = true
+    const cached = this.endpointHealth.get(this.activeUrl)
+    const health = cached?.healthz ? cached : await probeTradingEndpoint(this.activeUrl)
+    const config = TradingWs.rateLimitConfigFrom(health.healthz?.userRateLimit)
+    if (config !== undefined && !this.rateLimiter.isConfigured) this.rateLimiter.configure(config)
+  }
 
-      const onClose = () => {
-        cleanup()
-        reject(new Error('WebSocket not connected'))
-      }
+  private recordRtt(entry: PendingRequest) {
+    if (!entry.message || entry.sentAt === undefined) return
+    const type = String(entry.message.type || 'unknown')
+    const samples = this.rttSamples.get(type) ?? []
+    samples.push(performance.now() - entry.sentAt)
+    if (samples.length > RTT_WINDOW) samples.shift()
+    this.rttSamples.set(type, samples)
+  }
 
-      const onError = () => {
-        cleanup()
-        reject(new Error('WebSocket connection error'))
-      }
+  private startPing() {
+    this.stopPing()
+    if (this.pingIntervalMs <= 0) return
+    void this.ping()
+    this.pingTimer = setInterval(() => void this.ping(), this.pingIntervalMs)
+  }
 
-      const cleanup = () => {
-        clearTimeout(timeout)
-        this.ws?.removeEventListener('message', onMessage)
-        this.ws?.removeEventListener('close', onClose)
-        this.ws?.removeEventListener('error', onError)
+  private stopPing() {
+    if (this.pingTimer) clearInterval(this.pingTimer)
+    this.pingTimer = null
+  }
+
+  private async ping() {
+    if (this.pingUnsupported || !this.isOpen) return
+    if (this.pingSkip > 0) {
+      this.pingSkip -= 1
+      return
+    }
+    // Without requestId echoes an error reply could be pinned on an unrelated request; only ping when idle.
+    if (!this.serverEchoesRequestId && this.pending.size > 0) return
+    // Pings are optional; never let them queue for (or steal) a token that real work needs.
+    if (this.rateLimiter && !this.rateLimiter.tryAcquire('background')) return
+
+    const sentLocal = Date.now()
+    let pong: AnyJson
+    try {
+      pong = await this.dispatch(
+        { type: 'ping', clientTs: sentLocal },
+        (m): m is AnyJson => m.type === 'pong',
+        Math.min(this.timeoutMs, 10_000),
+        false,
+        true,
+      )
+    } catch (e) {
+      if (e instanceof TradingWsError) {
+        // Only an unknown-type reply means `ping` isn't part of this server's protocol; stop asking.
+        if (e.code && PING_UNSUPPORTED_CODES.has(e.code)) this.pingUnsupported = true
+        return
       }
+      // No pong (a server that ignores unknown types, or a stalled socket): skip 1, 3, 7, … ticks.
+      this.pingTimeouts += 1
+      this.pingSkip = 2 ** Math.min(this.pingTimeouts, MAX_PING_BACKOFF_EXP) - 1
+      return
+    }
+    this.pingTimeouts = 0
 
-      this.ws.addEventListener('message', onMessage)
-      this.ws.addEventListener('close', onClose)
-      this.ws.addEventListener('error', onError)
-    })
+    const samples = this.rttSamples.get('ping')
+    const rttMs = samples?.[samples.length - 1]
+    const serverTs = TradingWs.serverTimestamp(pong)
+    if (rttMs === undefined || serverTs === undefined) return
+    // NTP-style estimate: assume the server stamped the pong halfway through the round trip.
+    this.clockSamples.push({ rttMs, offsetMs: Math.round(serverTs - (sentLocal + rttMs / 2)) })
+    if (this.clockSamples.length > CLOCK_SAMPLE_WINDOW) this.clockSamples.shift()
+  }
 
-    return responsePromise
+  private recordHelloClock(hello: AnyJson) {
+    const serverTs = TradingWs.serverTimestamp(hello)
+    // One-way only, so this over-estimates the offset by the downlink latency; pings replace it.
+    if (serverTs !== undefined) this.helloClockOffsetMs = Math.round(serverTs - Date.now())
+  }
+
+  // The lowest-RTT sample has the least room for asymmetric-path error.
+  private bestClockSample() {
+    let best: { rttMs: number; offsetMs: number } | null = null
+    for (const sample of this.clockSamples) {
+      if (!best || sample.rttMs < best.rttMs) best = sample
+    }
+    return best
+  }
+
+  /** `undefined` = nothing advertised; `null` = limiting explicitly disabled. */
+  private static rateLimitConfigFrom(raw: unknown): { rps: number; burst: number } | null | undefined {
+    if (!raw || typeof raw !== 'object') return undefined
+    const obj = raw as { enabled?: unknown; rps?: unknown; burst?: unknown }
+    if (obj.enabled === false) return null
+    if (typeof obj.rps !== 'number' || !(obj.rps > 0)) return undefined
+    return { rps: obj.rps, burst: typeof obj.burst === 'number' && obj.burst > 0 ? obj.burst : obj.rps }
+  }
+
+  private static serverTimestamp(msg: AnyJson): number | undefined {
+    const data = typeof msg.data === 'object' && msg.data ? (msg.data as AnyJson) : null
+    for (const v of [msg.serverTs, msg.ts, data?.serverTs, data?.ts]) {
+      if (typeof v === 'number' && Number.isFinite(v) && v > 0) return v
+    }
+    return undefined
+  }
+
+  private static summarizeRtt(samples: number[]): TradingWsRttStats {
+    const sorted = [...samples].sort((a, b) => a - b)
+    const at = (q: number) => sorted[Math.min(sorted.length - 1, Math.ceil(q * sorted.length) - 1)]
+    return {
+      count: samples.length,
+      lastMs: Math.round(samples[samples.length - 1]),
+      p50Ms: Math.round(at(0.5)),
+      p95Ms: Math.round(at(0.95)),
+    }
+  }
+
+  private static emptyStats(): SocketStats {
+    return { messageCount: 0, lastMessageAt: 0, lastMessageType: undefined, protocolErrorCount: 0 }
+  }
+
+  private static abortError(): TradingWsError {
+    return new TradingWsError('Request aborted', 'aborted')
+  }
+
+  private static errorFromMessage(msg: AnyJson): TradingWsError {
+    const code = typeof msg.code === 'string' ? msg.code : undefined
+    const message = String(msg.message || 'Trading API error')
+    return new TradingWsError(message, code)
+  }
+
+  // Server-side rejections (auth, rate limits, rejected wallet prompts) are terminal;
+  // transport failures and timeouts are worth another attempt.
+  private static isRetryable(err: Error): boolean {
+    return !(err instanceof TradingWsError)
   }
 
   private static bytesToBase64(bytes: Uint8Array): string {
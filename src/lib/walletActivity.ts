@@ -0,0 +1,240 @@
+/**
+ * On-chain activity of our own wallets, from SolanaTracker `wallet:<pubkey>` rooms.
+ *
+ * The datastream reports a swap as soon as it lands, usually well before RPC signature polling
+ * sees it confirmed, so trade flows race `waitForSignature` against `confirmSignatureWithFallback`.
+ * Flows `claim` their signatures before submitting; a swap nobody claimed within the grace period
+ * was made outside dequanSwap (another app on the same wallet) and is reported as external.
+ * Claims are broadcast to the other dequanSwap tabs, whose watchers see the same swaps.
+ */
+
+import type { BalanceEvent, TradeEvent } from './solanaTrackerRooms'
+import type { SolanaTrackerWs } from './solanaTrackerWs'
+
+/** Which of our keys a wallet room belongs to. */
+export type WatchedWalletRole = 'wallet' | 'bot' | 'fastMode'
+
+export type WatchedWallet = { pubkey: string; role: WatchedWalletRole }
+
+export type WalletTrade = TradeEvent & { role: WatchedWalletRole; external: boolean }
+
+export type WalletBalance = BalanceEvent & { role: WatchedWalletRole }
+
+export type WalletActivityWatcherOptions = {
+  ws: SolanaTrackerWs
+  /** How long an unclaimed swap waits for a `claim` before it counts as external. */
+  externalGraceMs?: number
+  /** BroadcastChannel that shares claims between tabs. */
+  channelName?: string
+}
+
+const MAX_TRACKED_SIGNATURES = 200
+
+type ClaimMessage = { t: 'claim'; signature: string }
+
+type WatchedEntry = { role: WatchedWalletRole; rooms: string[]; unsubs: Array<() => void> }
+
+export class WalletActivityWatcher {
+  private readonly ws: SolanaTrackerWs
+  private readonly externalGraceMs: number
+  private readonly wallets = new Map<string, WatchedEntry>()
+
+  // Insertion-ordered so the oldest entries are pruned first.
+  private readonly claimed = new Set<string>()
+  private readonly seen = new Map<string, WalletTrade>()
+  private readonly pendingExternal = new Map<string, number>()
+  private readonly waiters = new Map<string, Set<(trade: WalletTrade | null) => void>>()
+
+  private readonly tradeListeners = new Set<(trade: WalletTrade) => void>()
+  private readonly balanceListeners = new Set<(balance: WalletBalance) => void>()
+  private readonly channel: BroadcastChannel | null = null
+
+  constructor(opts: WalletActivityWatcherOptions) {
+    this.ws = opts.ws
+    this.externalGraceMs = opts.externalGraceMs ?? 5_000
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(opts.channelName ?? 'dequanswap.walletClaims')
+      this.channel.onmessage = (evt: MessageEvent<ClaimMessage>) => {
+        const msg = evt.data
+        if (msg && msg.t === 'claim' && typeof msg.signature === 'string') this.markClaimed(msg.signature)
+      }
+    }
+  }
+
+  /** Joins the swap and balance rooms of `wallets` and leaves the rooms of wallets no longer listed. */
+  setWallets(wallets: WatchedWallet[]) {
+    const next = new Map<string, WatchedWalletRole>()
+    for (const w of wallets) {
+      const pubkey = String(w.pubkey || '').trim()
+      if (pubkey && !next.has(pubkey)) next.set(pubkey, w.role)
+    }
+
+    for (const [pubkey, entry] of this.wallets) {
+      if (next.get(pubkey) === entry.role) continue
+      this.unwatch(pubkey, entry)
+    }
+    for (const [pubkey, role] of next) {
+      if (!this.wallets.has(pubkey)) this.watch(pubkey, role)
+    }
+  }
+
+  get watchedWallets(): WatchedWallet[] {
+    return [...this.wallets].map(([pubkey, entry]) => ({ pubkey, role: entry.role }))
+  }
+
+  /** Marks a signature as one of ours, in every tab, so its swap is never reported as external. */
+  claim(signature: string) {
+    if (!signature || this.claimed.has(signature)) return
+    try {
+      this.channel?.postMessage({ t: 'claim', signature } satisfies ClaimMessage)
+    } catch {
+      // ignore
+    }
+    this.markClaimed(signature)
+  }
+
+  /**
+   * Resolves with the swap once a wallet room reports `signature` (claiming it), or null after
+   * `timeoutMs` or when `signal` aborts.
+   */
+  waitForSignature(signature: string, opts?: { timeoutMs?: number; signal?: AbortSignal }): Promise<WalletTrade | null> {
+    this.claim(signature)
+    const known = this.seen.get(signature)
+    if (known) return Promise.resolve(known)
+    if (opts?.signal?.aborted) return Promise.resolve(null)
+
+    return new Promise((resolve) => {
+      const set = this.waiters.get(signature) ?? new Set()
+      const done = (trade: WalletTrade | null) => {
+        set.delete(done)
+        if (set.size === 0 && this.waiters.get(signature) === set) this.waiters.delete(signature)
+        window.clearTimeout(timer)
+        opts?.signal?.removeEventListener('abort', onAbort)
+        resolve(trade)
+      }
+      const onAbort = () => done(null)
+      set.add(done)
+      this.waiters.set(signature, set)
+      const timer = window.setTimeout(() => done(null), opts?.timeoutMs ?? 60_000)
+      opts?.signal?.addEventListener('abort', onAbort)
+    })
+  }
+
+  /** Swaps of watched wallets: ours as soon as they are claimed, external ones after the grace period. */
+  onTrade(fn: (trade: WalletTrade) => void): () => void {
+    this.tradeListeners.add(fn)
+    return () => {
+      this.tradeListeners.delete(fn)
+    }
+  }
+
+  onBalance(fn: (balance: WalletBalance) => void): () => void {
+    this.balanceListeners.add(fn)
+    return () => {
+      this.balanceListeners.delete(fn)
+    }
+  }
+
+  destroy() {
+    this.channel?.close()
+    for (const [pubkey, entry] of this.wallets) this.unwatch(pubkey, entry)
+    for (const timer of this.pendingExternal.values()) window.clearTimeout(timer)
+    this.pendingExternal.clear()
+    for (const set of this.waiters.values()) {
+      for (const fn of [...set]) fn(null)
+    }
+    this.waiters.clear()
+    this.tradeListeners.clear()
+    this.balanceListeners.clear()
+  }
+
+  private watch(pubkey: string, role: WatchedWalletRole) {
+    const swapRoom = `wallet:${pubkey}`
+    const balanceRoom = `wallet:${pubkey}:balance`
+    const unsubs = [
+      this.ws.onRoomEvent(swapRoom, (event) => {
+        if (event.kind === 'trade') this.handleTrade({ ...event, role, external: false })
+      }),
+      this.ws.onRoomEvent(balanceRoom, (event) => {
+        if (event.kind === 'balance') this.emitBalance({ ...event, role })
+      }),
+    ]
+    this.ws.join(swapRoom)
+    this.ws.join(balanceRoom)
+    this.wallets.set(pubkey, { role, rooms: [swapRoom, balanceRoom], unsubs })
+  }
+
+  private unwatch(pubkey: string, entry: WatchedEntry) {
+    for (const unsub of entry.unsubs) unsub()
+    for (const room of entry.rooms) this.ws.leave(room)
+    this.wallets.delete(pubkey)
+  }
+
+  private markClaimed(signature: string) {
+    if (this.claimed.has(signature)) return
+    this.claimed.add(signature)
+    prune(this.claimed)
+    const timer = this.pendingExternal.get(signature)
+    if (timer === undefined) return
+    window.clearTimeout(timer)
+    this.pendingExternal.delete(signature)
+    const trade = this.seen.get(signature)
+    if (trade) this.emitTrade(trade)
+  }
+
+  private handleTrade(trade: WalletTrade) {
+    // The same swap can show up in two rooms (Fast Mode trades move both the owner and the session key).
+    if (this.seen.has(trade.signature)) return
+    this.seen.set(trade.signature, trade)
+    prune(this.seen)
+
+    const waiters = this.waiters.get(trade.signature)
+    if (waiters) {
+      for (const fn of [...waiters]) {
+        try {
+          fn(trade)
+        } catch {
+          // ignore
+        }
+      }
+    }
+
+    if (this.claimed.has(trade.signature)) {
+      this.emitTrade(trade)
+      return
+    }
+    const timer = window.setTimeout(() => {
+      this.pendingExternal.delete(trade.signature)
+      trade.external = true
+      this.emitTrade(trade)
+    }, this.externalGraceMs)
+    this.pendingExternal.set(trade.signature, timer)
+  }
+
+  private emitTrade(trade: WalletTrade) {
+    for (const fn of this.tradeListeners) {
+      try {
+        fn(trade)
+      } catch {
+        // ignore
+      }
+    }
+  }
+
+  private emitBalance(balance: WalletBalance) {
+    for (const fn of this.balanceListeners) {
+      try {
+        fn(balance)
+      } catch {
+        // ignore
+      }
+    }
+  }
+}
+
+function prune(entries: Set<string> | Map<string, unknown>) {
+  for (const key of entries.keys()) {
+    if (entries.size <= MAX_TRACKED_SIGNATURES) return
+    entries.delete(key)
+  }
+}
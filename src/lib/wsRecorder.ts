@@ -0,0 +1,374 @@
+/**
+ * Record-and-replay for the app's WebSocket clients (TradingWs, DataGatewayWs, SolanaTrackerWs).
+ *
+ * Each client accepts a `webSocketFactory`. `WsRecorder.factory(source)` returns real sockets that
+ * log every inbound/outbound frame while recording is on; `WsReplayer.factory(source)` returns
+ * fake sockets that play a saved recording back, so the UI and the client classes can be driven
+ * offline against a real captured session.
+ *
+ * Replay is deterministic with respect to the client: a recorded outbound frame is a gate that
+ * waits for the client to send a frame of the same `type`, and requestIds in the recording are
+ * rewritten to the ones the live client generated. Inbound frames keep their recorded spacing.
+ *
+ * Recordings are meant to be shared, so credentials (auth frame fields, JWTs, keys in URLs) are
+ * redacted as they are stored. Replay only gates on frame `type`, so it never needs them.
+ */
+
+import { FakeWebSocket } from './fakeWebSocket'
+
+export type WebSocketFactory = (url: string) => WebSocket
+
+export type WsRecordSource = 'trading' | 'dataGateway' | 'solanaTracker'
+
+export type WsRecordEvent = {
+  /** ms since the recording started. */
+  t: number
+  source: WsRecordSource
+  /** Socket id, unique within the recording. */
+  conn: number
+  kind: 'connect' | 'open' | 'in' | 'out' | 'close' | 'error'
+  url?: string
+  data?: string
+  code?: number
+  reason?: string
+}
+
+export type WsRecording = {
+  version: 1
+  startedAt: number
+  endedAt: number
+  truncated: boolean
+  events: WsRecordEvent[]
+}
+
+export type WsReplayOptions = {
+  /** Playback speed multiplier for inbound frame spacing. Default: 1. */
+  speed?: number
+  /** Skip a recorded outbound gate if the client hasn't sent a matching frame within this long. Default: 5s. */
+  gateTimeoutMs?: number
+}
+
+const MAX_RECORDED_EVENTS = 50_000
+
+const REDACTED = '[redacted]'
+
+// JSON fields that carry credentials, at any depth of a frame. Inbound market data uses `token` for
+// mints and token objects, so that name is only redacted in frames we send.
+const SECRET_FIELDS = new Set(['apiKey', 'authToken', 'accessToken', 'signatureBase64', 'accountJwt', 'jwt'])
+const SECRET_OUT_FIELDS = new Set([...SECRET_FIELDS, 'token'])
+
+// Query parameters that carry credentials (`st` is the SolanaTracker proxy session token).
+const SECRET_PARAMS = ['key', 'apiKey', 'api_key', 'token', 'authToken', 'st']
+
+function redactValue(value: unknown, fields: Set<string>): unknown {
+  if (Array.isArray(value)) return value.map((v) => redactValue(v, fields))
+  if (!value || typeof value !== 'object') return value
+  const out: Record<string, unknown> = {}
+  for (const [k, v] of Object.entries(value)) out[k] = fields.has(k) && v ? REDACTED : redactValue(v, fields)
+  return out
+}
+
+/** Frame text with credential fields replaced; non-JSON frames pass through. */
+export function redactWsFrame(data: string, direction: 'in' | 'out'): string {
+  if (!data.startsWith('{') && !data.startsWith('[')) return data
+  try {
+    return JSON.stringify(redactValue(JSON.parse(data), direction === 'out' ? SECRET_OUT_FIELDS : SECRET_FIELDS))
+  } catch {
+    return data
+  }
+}
+
+/** URL with credential query parameters replaced; a direct Datastream URL carries its key as the path. */
+export function redactWsUrl(url: string): string {
+  try {
+    const u = new URL(url)
+    for (const name of SECRET_PARAMS) if (u.searchParams.has(name)) u.searchParams.set(name, REDACTED)
+    if (u.hostname.endsWith('solanatracker.io') && u.pathname.length > 1) u.pathname = `/${REDACTED}`
+    return u.toString()
+  } catch {
+    return url
+  }
+}
+
+export class WsRecorder {
+  private recording = false
+  private startedAt = 0
+  private events: WsRecordEvent[] = []
+  private truncated = false
+  private connSeq = 0
+  private readonly listeners = new Set<() => void>()
+
+  get isRecording() {
+    return this.recording
+  }
+
+  get eventCount() {
+    return this.events.length
+  }
+
+  /** Listeners fire when recording starts/stops (not per frame). */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  start() {
+    this.recording = true
+    this.startedAt = Date.now()
+    this.events = []
+    this.truncated = false
+    this.emitChange()
+  }
+
+  stop(): WsRecording {
+    this.recording = false
+    this.emitChange()
+    return { version: 1, startedAt: this.startedAt, endedAt: Date.now(), truncated: this.truncated, events: this.events }
+  }
+
+  /** Real sockets, instrumented. Frames are only kept while recording is on, so this is safe to always install. */
+  factory(source: WsRecordSource): WebSocketFactory {
+    return (url) => {
+      const ws = new WebSocket(url)
+      const conn = (this.connSeq += 1)
+      this.push({ source, conn, kind: 'connect', url })
+
+      const rawSend = ws.send.bind(ws)
+      ws.send = (data) => {
+        this.push({ source, conn, kind: 'out', data: typeof data === 'string' ? data : '[binary]' })
+        rawSend(data)
+      }
+      ws.addEventListener('open', () => this.push({ source, conn, kind: 'open' }))
+      ws.addEventListener('message', (event) => {
+        this.push({ source, conn, kind: 'in', data: typeof event.data === 'string' ? event.data : '[binary]' })
+      })
+      ws.addEventListener('error', () => this.push({ source, conn, kind: 'error' }))
+      ws.addEventListener('close', (event) => this.push({ source, conn, kind: 'close', code: event.code, reason: event.reason }))
+      return ws
+    }
+  }
+
+  private push(evt: Omit<WsRecordEvent, 't'>) {
+    if (!this.recording) return
+    if (this.events.length >= MAX_RECORDED_EVENTS) {
+      this.truncated = true
+      return
+    }
+    const stored: WsRecordEvent = { t: Date.now() - this.startedAt, ...evt }
+    if (stored.url) stored.url = redactWsUrl(stored.url)
+    if (stored.data && (stored.kind === 'in' || stored.kind === 'out')) stored.data = redactWsFrame(stored.data, stored.kind)
+    this.events.push(stored)
+  }
+
+  private emitChange() {
+    for (const fn of this.listeners) {
+      try {
+        fn()
+      } catch {
+        // ignore
+      }
+    }
+  }
+}
+
+export function downloadWsRecording(recording: WsRecording, filename = `ws-recording-${recording.startedAt}.json`) {
+  const blob = new Blob([JSON.stringify(recording, null, 2)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  document.body.appendChild(a)
+  a.click()
+  a.remove()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+export function parseWsRecording(raw: string): WsRecording {
+  const parsed = JSON.parse(raw) as Partial<WsRecording> | null
+  if (!parsed || parsed.version !== 1 || !Array.isArray(parsed.events)) {
+    throw new Error('Not a WebSocket recording (expected version 1 with an events array)')
+  }
+  return {
+    version: 1,
+    startedAt: Number(parsed.startedAt) || 0,
+    endedAt: Number(parsed.endedAt) || 0,
+    truncated: Boolean(parsed.truncated),
+    events: parsed.events,
+  }
+}
+
+export class WsReplayer {
+  private readonly connections = new Map<WsRecordSource, WsRecordEvent[][]>()
+  private readonly used = new Map<WsRecordSource, number>()
+  private readonly opts: Required<WsReplayOptions>
+
+  constructor(recording: WsRecording, opts: WsReplayOptions = {}) {
+    this.opts = { speed: opts.speed ?? 1, gateTimeoutMs: opts.gateTimeoutMs ?? 5_000 }
+
+    const byConn = new Map<number, WsRecordEvent[]>()
+    for (const evt of recording.events) {
+      const list = byConn.get(evt.conn)
+      if (list) list.push(evt)
+      else byConn.set(evt.conn, [evt])
+    }
+    // Map iteration follows first appearance, i.e. the order the sockets were created in.
+    for (const events of byConn.values()) {
+      const source = events[0].source
+      const list = this.connections.get(source) ?? []
+      list.push(events)
+      this.connections.set(source, list)
+    }
+  }
+
+  /** Recorded sockets for `source` that have not been replayed yet. */
+  remaining(source: WsRecordSource): number {
+    return (this.connections.get(source)?.length ?? 0) - (this.used.get(source) ?? 0)
+  }
+
+  /** The n-th socket a client opens replays the n-th recorded socket of the same source; extra sockets fail to connect. */
+  factory(source: WsRecordSource): WebSocketFactory {
+    return (url) => {
+      const idx = this.used.get(source) ?? 0
+      this.used.set(source, idx + 1)
+      const events = this.connections.get(source)?.[idx] ?? null
+      return new ReplaySession(url, events, this.opts).socket.asWebSocket()
+    }
+  }
+}
+
+/** Drives one FakeWebSocket through one recorded connection. */
+class ReplaySession {
+  readonly socket: FakeWebSocket
+
+  private readonly events: WsRecordEvent[]
+  private readonly opts: Required<WsReplayOptions>
+  private readonly unmatchedSends: string[] = []
+  private readonly requestIdMap = new Map<string, string>()
+  private cursor = 0
+  private lastT = 0
+  private gateSince = 0
+  private timer: ReturnType<typeof setTimeout> | null = null
+
+  constructor(url: string, events: WsRecordEvent[] | null, opts: Required<WsReplayOptions>) {
+    this.opts = opts
+    this.socket = new FakeWebSocket(url, {
+      onSend: (data) => {
+        this.unmatchedSends.push(data)
+        if (this.gateSince) this.schedule(0)
+      },
+      onClose: () => {
+        if (this.timer) clearTimeout(this.timer)
+        this.timer = null
+      },
+    })
+    if (!events) {
+      // Nothing left to replay for this client: behave like an unreachable server.
+      this.events = [
+        { t: 0, source: 'trading', conn: 0, kind: 'error' },
+        { t: 0, source: 'trading', conn: 0, kind: 'close', code: 1006, reason: 'replay_exhausted' },
+      ]
+    } else {
+      const playable = events.filter((e) => e.kind !== 'connect')
+      // Sockets created before recording started have no 'open' event; synthesize one.
+      if (playable.length && playable[0].kind !== 'open' && playable[0].kind !== 'error' && playable[0].kind !== 'close') {
+        playable.unshift({ ...playable[0], kind: 'open', data: undefined })
+      }
+      this.events = playable
+    }
+    this.lastT = this.events[0]?.t ?? 0
+    this.schedule(0)
+  }
+
+  private schedule(delayMs: number) {
+    if (this.timer) clearTimeout(this.timer)
+    this.timer = setTimeout(() => {
+      this.timer = null
+      this.step()
+    }, Math.max(0, delayMs))
+  }
+
+  private step() {
+    while (this.cursor < this.events.length && this.socket.readyState !== WebSocket.CLOSED) {
+      const evt = this.events[this.cursor]
+
+      if (evt.kind === 'out') {
+        if (!this.matchOutbound(evt)) {
+          const now = Date.now()
+          if (!this.gateSince) this.gateSince = now
+          const waited = now - this.gateSince
+          if (waited < this.opts.gateTimeoutMs) {
+            this.schedule(this.opts.gateTimeoutMs - waited)
+            return
+          }
+        }
+        this.gateSince = 0
+        this.lastT = evt.t
+        this.cursor += 1
+        continue
+      }
+
+      const delay = (evt.t - this.lastT) / this.opts.speed
+      if (delay > 0) {
+        this.lastT = evt.t
+        this.schedule(delay)
+        return
+      }
+
+      this.cursor += 1
+      this.lastT = evt.t
+      this.play(evt)
+    }
+  }
+
+  private play(evt: WsRecordEvent) {
+    switch (evt.kind) {
+      case 'open':
+        this.socket.serverOpen()
+        return
+      case 'in':
+        this.socket.serverMessage(this.rewriteInbound(evt.data ?? ''))
+        return
+      case 'error':
+        this.socket.serverError()
+        return
+      case 'close':
+        this.socket.serverClose(evt.code ?? 1006, evt.reason ?? '')
+        return
+    }
+  }
+
+  /** Consumes the first live send with the same message type and learns its requestId mapping. */
+  private matchOutbound(evt: WsRecordEvent): boolean {
+    const recorded = parseFrame(evt.data)
+    const idx = this.unmatchedSends.findIndex((raw) => {
+      const live = parseFrame(raw)
+      return recorded && live ? live.type === recorded.type : raw === evt.data
+    })
+    if (idx < 0) return false
+    const live = parseFrame(this.unmatchedSends[idx])
+    this.unmatchedSends.splice(idx, 1)
+    if (typeof recorded?.requestId === 'string' && typeof live?.requestId === 'string') {
+      this.requestIdMap.set(recorded.requestId, live.requestId)
+    }
+    return true
+  }
+
+  private rewriteInbound(data: string): string {
+    if (this.requestIdMap.size === 0) return data
+    const parsed = parseFrame(data)
+    const liveId = typeof parsed?.requestId === 'string' ? this.requestIdMap.get(parsed.requestId) : undefined
+    return liveId ? JSON.stringify({ ...parsed, requestId: liveId }) : data
+  }
+}
+
+function parseFrame(data: string | undefined): Record<string, unknown> | null {
+  if (!data) return null
+  try {
+    const parsed = JSON.parse(data) as unknown
+    return parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : null
+  } catch {
+    return null
+  }
+}